@@ -1,15 +1,61 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Subject, AppSettings, DayOfWeek } from './types';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Subject, AppSettings, DayOfWeek, HolidaySet, RecordStatus, Semester, TrashEntry } from './types';
 import { SubjectCard } from './components/SubjectCard';
 import { AddSubjectModal } from './components/AddSubjectModal';
 import { CalendarView } from './components/CalendarView';
 import { NotificationSettings as SettingsView } from './components/NotificationSettings';
-import { Plus, GraduationCap, LayoutGrid, Calendar, Settings, PieChart, Sparkles } from 'lucide-react';
-import { getSubjectsForDate, getLocalISOString, isEventDay } from './utils/calculations';
+import { HolidayManager } from './components/HolidayManager';
+import { AttendanceRulesSettings } from './components/AttendanceRulesSettings';
+import { RuleProfileSettings } from './components/RuleProfileSettings';
+import { ConsistencyBanner } from './components/ConsistencyBanner';
+import { SafeModeBanner } from './components/SafeModeBanner';
+import { StorageNotice, StorageProblem, UpdateRequired } from './components/StorageNotice';
+import { TodayView } from './components/TodayView';
+import { MarkConfirmModal, MarkRequest } from './components/MarkConfirmModal';
+import { ImportPreviewModal } from './components/ImportPreviewModal';
+import { UndoToast, ToastState } from './components/UndoToast';
+import { TimetableImportModal } from './components/TimetableImportModal';
+import { ExportPanel, getExportActions } from './components/ExportPanel';
+import { BunkPlanner } from './components/BunkPlanner';
+import { SemesterManager } from './components/SemesterManager';
+import { AnalyticsView } from './components/AnalyticsView';
+import { DayLogPanel } from './components/DayLogPanel';
+import { ExtraSessionsPanel } from './components/ExtraSessionsPanel';
+import { WeeklySlotsPanel } from './components/WeeklySlotsPanel';
+import { TrashBin } from './components/TrashBin';
+import { SyncPanel } from './components/SyncPanel';
+import { ReminderRulesSettings } from './components/ReminderRulesSettings';
+import { NotificationLog } from './components/NotificationLog';
+import { TemplateSharePanel } from './components/TemplateSharePanel';
+import { TimeZoneSettings } from './components/TimeZoneSettings';
+import { CommandPalette, Command } from './components/CommandPalette';
+import { Plus, GraduationCap, LayoutGrid, Calendar, Settings, PieChart, Sparkles, FileUp, Archive, BarChart3, Undo2, Redo2, Search, Pencil, Check, X } from 'lucide-react';
+import { projectAttendance } from './utils/engine';
 import { triggerHaptic } from './utils/haptics';
-
-const LOCAL_STORAGE_KEY = 'smartskip_data_v1';
-const SETTINGS_KEY = 'smartskip_settings_v2';
+import { syncScheduleFromSlots } from './utils/slots';
+import { getDeviceTimeZone, getSubjectToday, getTodayIn } from './utils/dates';
+import { getClassesOnDate, logClass, logDay, unlogClass } from './utils/dayLog';
+import { useRestoreFocus } from './utils/focus';
+import { isSafeMode } from './utils/recovery';
+import { AppView, clearDeepLink, parseDeepLink } from './utils/deepLinks';
+import { buildTodaySummary } from './utils/today';
+import { getDefaultHolidaySet, toggleSubjectHolidaySet } from './utils/holidays';
+import { buildReminderSchedule, getDueReminders } from './utils/reminders';
+import { getActiveWorker, requestReminderCheck, syncReminderSchedule, syncTodaySummary } from './utils/serviceWorker';
+import { appendNotificationLog, getNotificationLog } from './utils/notificationLog';
+import { findSubjectIssues, repairSubject, withDerivedCounts, RepairStrategy, SubjectIssue } from './utils/consistency';
+import { loadState, readImportedSubjects, saveState } from './utils/storage';
+import { applyImport, planImport, ImportMatch } from './utils/merge';
+import { getSubjectTarget } from './utils/rules';
+import { cloneTimetable, getSemesterSubjects, isArchived, sortSemesters } from './utils/semesters';
+import { mergeSyncState, SyncPayload } from './utils/sync';
+import { decodeTemplate, instantiateTemplate, readTemplateHash } from './utils/templates';
+import { TimetableParseResult } from './utils/timetableImport';
+import {
+  createMutation, recordMutation, undoMutation, redoMutation, moveToTrash, restoreFromTrash,
+  EMPTY_LOG, MutationLog, UndoableState,
+} from './utils/mutations';
+import { DEFAULT_SETTINGS, REMINDER_CATCH_UP_MS, STATUS_LABELS } from './constants';
 
 // --- macOS Dock Implementation ---
 
@@ -85,7 +131,8 @@ const DockIcon: React.FC<DockIconProps> = ({ icon, label, isActive, onClick, mou
        
        {/* Tooltip: Floats dynamically based on magnification */}
        <div 
-          className="absolute -top-10 pointer-events-none opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-20"
+          aria-hidden="true"
+          className="absolute -top-10 pointer-events-none opacity-0 group-hover:opacity-100 group-has-[:focus-visible]:opacity-100 transition-opacity duration-200 z-20"
           style={{ 
             transform: `translateY(${dimensions.mag * -20}px) translateX(-50%)`, 
             left: '50%'
@@ -100,10 +147,15 @@ const DockIcon: React.FC<DockIconProps> = ({ icon, label, isActive, onClick, mou
         ref={iconRef}
         onClick={handleClick}
         style={sizeStyle}
+        // Roving focus: only the active view is in the tab order, arrows move between icons
+        role="tab"
+        aria-label={label}
+        aria-selected={isActive}
+        tabIndex={isActive ? 0 : -1}
         className={`
           relative flex items-center justify-center rounded-[14px]
           will-change-[width,height,transform]
-          border
+          border focus:outline-none focus-visible:ring-2 focus-visible:ring-[#0A84FF]/70
           ${transitionClass}
           ${isActive 
             ? 'bg-white/20 border-white/10 shadow-[inset_0_0_12px_rgba(255,255,255,0.15)]' 
@@ -125,147 +177,326 @@ const DockIcon: React.FC<DockIconProps> = ({ icon, label, isActive, onClick, mou
   );
 };
 
+// Dock, command palette and view panel all name the views the same way
+const VIEW_LABELS = {
+  dashboard: 'Dashboard',
+  calendar: 'Calendar',
+  analytics: 'Analytics',
+  settings: 'Preferences',
+};
+
 // --- Main App ---
 
 const App: React.FC = () => {
-  const [subjects, setSubjects] = useState<Subject[]>(() => {
-    const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
-    const parsed = saved ? JSON.parse(saved) : [];
-    return Array.isArray(parsed) ? parsed.map((s: any) => ({
-      ...s,
-      id: s.id || `restored-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-    })) : [];
-  });
+  // Populated from storage once hydration finishes
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [holidaySets, setHolidaySets] = useState<HolidaySet[]>(() => [getDefaultHolidaySet()]);
+  const [semesters, setSemesters] = useState<Semester[]>([]);
+  const [activeSemesterId, setActiveSemesterId] = useState('');
+  const [trash, setTrash] = useState<TrashEntry[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
+  // Stored data this build can't use is never saved over: newer data blocks the
+  // app, unreadable data locks saving until the user starts fresh
+  const [needsUpdate, setNeedsUpdate] = useState(false);
+  const [isSaveLocked, setIsSaveLocked] = useState(false);
+  const [storageProblem, setStorageProblem] = useState<StorageProblem | null>(null);
+  // Safe mode runs on defaults only: stored data is neither read nor written
+  const [safeMode] = useState(isSafeMode);
+  // The URL's deep link, read once; ?view=today switches to the compact layout for good
+  const [deepLink] = useState(() => parseDeepLink(window.location.search));
+  const isCompact = deepLink?.kind === 'today';
+  const [pendingMark, setPendingMark] = useState<{ subjectId: string; status: RecordStatus; date?: string } | null>(null);
 
-  const [settings, setSettings] = useState<AppSettings>(() => {
-    const saved = localStorage.getItem(SETTINGS_KEY);
-    return saved ? JSON.parse(saved) : {
-      notificationsEnabled: false,
-      dailyReminder: true,
-      dailyReminderTime: '20:00',
-      classReminders: true,
-      targetPercentage: 0.75 // Default 75%
-    };
-  });
+  // Counts that drifted from history, found at load and after imports
+  const [subjectIssues, setSubjectIssues] = useState<SubjectIssue[]>([]);
+
+  // Import review, plus the session's undo/redo log for subject changes
+  const [pendingImport, setPendingImport] = useState<{ plan: ImportMatch[]; skipped: number } | null>(null);
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const [mutationLog, setMutationLog] = useState<MutationLog>(EMPTY_LOG);
 
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isTimetableImportOpen, setIsTimetableImportOpen] = useState(false);
+  const [templateImport, setTemplateImport] = useState<{ label: string; result: TimetableParseResult } | null>(null);
   const [editingSubject, setEditingSubject] = useState<Subject | undefined>(undefined);
+  const [logDate, setLogDate] = useState(() => getTodayIn()); // Day shown in the calendar's log panel
   
   // View State & Animation State
-  const [currentView, setCurrentView] = useState<'dashboard' | 'calendar' | 'settings'>('dashboard');
+  const [currentView, setCurrentView] = useState<AppView>('dashboard');
   const [animOrigin, setAnimOrigin] = useState<{x: number | string, y: number | string}>({ x: '50%', y: '100%' });
   
   const dockRef = useRef<HTMLDivElement>(null);
   const [mouseX, setMouseX] = useState<number | null>(null);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+
+  // The subject editor manages its own fields; focus goes back to whatever opened it
+  useRestoreFocus(isModalOpen);
 
-  // Refs for Notification Deduplication
-  const lastDailyReminderRef = useRef<string>('');
-  const sentClassRemindersRef = useRef<Set<string>>(new Set());
+  // Reminder ids already shown by the in-page fallback engine
+  const firedRemindersRef = useRef<Set<string> | null>(null);
 
   useEffect(() => {
-    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(subjects));
-  }, [subjects]);
+    if (safeMode) {
+      setIsHydrated(true);
+      return;
+    }
+    let cancelled = false;
+    loadState()
+      .then(({ state, quarantined, readOnly }) => {
+        if (cancelled) return;
+        if (readOnly === 'NEWER_VERSION') {
+          setNeedsUpdate(true);
+          return;
+        }
+        setSubjects(state.subjects);
+        setSettings(state.settings);
+        setHolidaySets(state.holidaySets);
+        setSemesters(state.semesters);
+        setActiveSemesterId(state.activeSemesterId);
+        setTrash(state.trash);
+        setSubjectIssues(findSubjectIssues(state.subjects, state.settings));
+        if (readOnly === 'UNREADABLE') {
+          setIsSaveLocked(true);
+          setStorageProblem({ kind: 'UNREADABLE' });
+        } else if (quarantined.length > 0) {
+          setStorageProblem({ kind: 'QUARANTINED', count: quarantined.length });
+        }
+        setIsHydrated(true);
+      })
+      // Stay un-hydrated so nothing overwrites data we could not read
+      .catch((err: Error) => {
+        if (!cancelled) setStorageProblem({ kind: 'LOAD_FAILED', message: err.message });
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    // Never persist the empty pre-hydration state over real data
+    if (!isHydrated || safeMode || isSaveLocked) return;
+    saveState({ subjects, settings, holidaySets, semesters, activeSemesterId, trash })
+      .catch((err: Error) => setStorageProblem({ kind: 'SAVE_FAILED', message: err.message }));
+  }, [subjects, settings, holidaySets, semesters, activeSemesterId, trash, isHydrated, isSaveLocked]);
+
+  // The unreadable data already has a copy in quarantine
+  const handleStartFresh = () => {
+    setIsSaveLocked(false);
+    setStorageProblem(null);
+  };
+
+  // Timetable templates shared as links (#template=...) open in the import review
+  useEffect(() => {
+    if (!isHydrated) return;
+    const openFromHash = () => {
+      const encoded = readTemplateHash(window.location.hash);
+      if (!encoded) return;
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      decodeTemplate(encoded)
+        .then(template => ({ label: `Shared: ${template.name}`, result: instantiateTemplate(template, holidaySets) }))
+        .catch((err: Error) => ({ label: 'Shared timetable link', result: { subjects: [], errors: [err.message] } }))
+        .then(initial => {
+          setTemplateImport(initial);
+          setIsTimetableImportOpen(true);
+        });
+    };
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, [isHydrated, holidaySets]);
+
+  // ?view= and ?mark= links apply once the data they refer to has loaded
+  useEffect(() => {
+    if (!isHydrated || !deepLink || deepLink.kind === 'today') return;
+    if (deepLink.kind === 'view') {
+      setCurrentView(deepLink.view);
+      if (deepLink.date && deepLink.date <= getTodayIn()) setLogDate(deepLink.date);
+    } else {
+      setPendingMark(deepLink);
+    }
+    clearDeepLink();
+  }, [isHydrated, deepLink]);
 
+  // The service worker serves this as ./today.json for home-screen widgets
   useEffect(() => {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
-  }, [settings]);
+    if (!isHydrated || safeMode) return;
+    const archived = new Set(semesters.filter(isArchived).map(s => s.id));
+    const openSubjects = subjects.filter(s => !archived.has(s.semesterId ?? ''));
+    syncTodaySummary(buildTodaySummary(openSubjects, settings, holidaySets));
+  }, [subjects, settings, holidaySets, semesters, isHydrated]);
+
+  // The dashboard, calendar and per-semester panels only see the selected
+  // semester; subjects in archived semesters are read-only.
+  const activeSemester = semesters.find(s => s.id === activeSemesterId);
+  const isReadOnly = isArchived(activeSemester);
+  const semesterSubjects = getSemesterSubjects(subjects, activeSemesterId);
+  const archivedSemesterIds = new Set(semesters.filter(isArchived).map(s => s.id));
+  const isLocked = (subjectId: string) =>
+    archivedSemesterIds.has(subjects.find(s => s.id === subjectId)?.semesterId ?? '');
 
   // --- Notification Engine ---
+  // Reminders are computed here and handed to the service worker, which shows
+  // them on time without an open tab and catches up on ones missed while the
+  // device slept. Without an active worker (no support, or registration
+  // failed) the page checks the same schedule every minute.
   useEffect(() => {
-    if (!settings.notificationsEnabled || !('Notification' in window) || Notification.permission !== 'granted') return;
-
-    const checkNotifications = () => {
-      const now = new Date();
-      const todayStr = getLocalISOString(now);
-      const currentHours = now.getHours();
-      const currentMinutes = now.getMinutes();
-      const currentTimeInMinutes = currentHours * 60 + currentMinutes;
-
-      // Reset cache if day changed
-      if (lastDailyReminderRef.current !== '' && lastDailyReminderRef.current !== todayStr) {
-          sentClassRemindersRef.current.clear();
-      }
+    // Safe mode leaves the service worker's schedule as it was
+    if (!isHydrated || safeMode) return;
+    if (!settings.notificationsEnabled || !('Notification' in window) || Notification.permission !== 'granted') {
+      syncReminderSchedule([]);
+      return;
+    }
 
-      // 1. Daily Reminder
-      if (settings.dailyReminder && settings.dailyReminderTime) {
-          const [remH, remM] = settings.dailyReminderTime.split(':').map(Number);
-          if (currentHours === remH && currentMinutes === remM) {
-              if (lastDailyReminderRef.current !== todayStr) {
-                  new Notification("SmartSkip Daily Check", {
-                      body: "Don't forget to log your attendance today!",
-                      icon: "/favicon.ico"
-                  });
-                  lastDailyReminderRef.current = todayStr;
-              }
-          }
-      }
+    const openSubjects = subjects.filter(s => !archivedSemesterIds.has(s.semesterId ?? ''));
+    const reminders = buildReminderSchedule(openSubjects, settings, holidaySets);
 
-      // 2. Class Reminders (15 mins before)
-      if (settings.classReminders) {
-          subjects.forEach(sub => {
-              if (!sub.startTime) return;
-
-              // Validate if class exists today
-              const validation = isEventDay(todayStr, sub);
-              if (!validation.isValid) return;
-
-              const [startH, startM] = sub.startTime.split(':').map(Number);
-              const startTimeInMinutes = startH * 60 + startM;
-              const diff = startTimeInMinutes - currentTimeInMinutes;
-
-              // Check if exactly 15 minutes remaining
-              if (diff === 15) {
-                  const key = `${sub.id}-${todayStr}`;
-                  if (!sentClassRemindersRef.current.has(key)) {
-                      new Notification(`Upcoming Class: ${sub.name}`, {
-                          body: `Starting at ${sub.startTime} (in 15 mins)`,
-                          icon: "/favicon.ico"
-                      });
-                      sentClassRemindersRef.current.add(key);
-                  }
-              }
-          });
-      }
+    const watchWithWorker = () => {
+      syncReminderSchedule(reminders);
+
+      const handleVisibility = () => {
+        if (document.visibilityState === 'visible') requestReminderCheck();
+      };
+      document.addEventListener('visibilitychange', handleVisibility);
+      const intervalId = setInterval(requestReminderCheck, 60000);
+
+      return () => {
+          document.removeEventListener('visibilitychange', handleVisibility);
+          clearInterval(intervalId);
+      };
     };
 
-    // Calculate time until next minute start to align interval
-    const now = new Date();
-    const msUntilNextMinute = (60 - now.getSeconds()) * 1000 - now.getMilliseconds() + 50; 
-    
-    // Initial check
-    checkNotifications();
+    // Page fallback: a reminder only counts as fired once it has been shown.
+    // The notification log remembers those across reloads, so missed ones
+    // still inside their catch-up window are shown when the page opens.
+    const watchInPage = () => {
+      let stopped = false;
+      const checkNotifications = async () => {
+        if (!firedRemindersRef.current) {
+          const shown = await getNotificationLog().catch(() => []);
+          firedRemindersRef.current = firedRemindersRef.current ?? new Set(shown.map(entry => entry.id));
+        }
+        if (stopped) return;
+        const fired = firedRemindersRef.current;
+        const due = getDueReminders(reminders, fired, Date.now(), REMINDER_CATCH_UP_MS);
+        due.forEach(reminder => {
+          new Notification(reminder.title, {
+              body: reminder.body,
+              tag: reminder.id,
+              icon: "./icons/icon.svg"
+          });
+          fired.add(reminder.id);
+        });
+        appendNotificationLog(due).catch(() => undefined);
+      };
 
-    let intervalId: ReturnType<typeof setInterval>;
-    const timeoutId = setTimeout(() => {
-        checkNotifications();
-        intervalId = setInterval(checkNotifications, 60000); // Check every minute
-    }, msUntilNextMinute);
+      checkNotifications();
+      const intervalId = setInterval(checkNotifications, 60000); // Check every minute
+      return () => {
+        stopped = true;
+        clearInterval(intervalId);
+      };
+    };
 
+    let cancelled = false;
+    let stopWatching = () => {};
+    getActiveWorker().then(worker => {
+      if (!cancelled) stopWatching = worker ? watchWithWorker() : watchInPage();
+    });
     return () => {
-        clearTimeout(timeoutId);
-        if (intervalId) clearInterval(intervalId);
+      cancelled = true;
+      stopWatching();
     };
-  }, [settings, subjects]);
+  }, [settings, subjects, holidaySets, semesters, isHydrated]);
+
+
+  // Every mutation passes through here so derived fields stay in step.
+  // New subjects join the semester being viewed, in the device's time zone.
+  const normalizeSubject = (subject: Subject) => withDerivedCounts(
+    syncScheduleFromSlots({
+      ...subject,
+      semesterId: subject.semesterId ?? activeSemesterId,
+      timeZone: subject.timeZone ?? getDeviceTimeZone(),
+      updatedAt: Date.now(),
+    }),
+    settings
+  );
 
+  // Every change to subjects or the bin goes through here so it can be
+  // undone. Destructive actions pass a toast message to offer a quick undo.
+  // Holiday sets and semesters left out of `changes` stay as they are.
+  const undoableState: UndoableState = { subjects, trash, holidaySets, semesters };
+  const commit = (label: string, changes: Partial<UndoableState>, toastMessage?: string) => {
+    const next = { ...undoableState, ...changes };
+    const mutation = createMutation(label, undoableState, next);
+    if (!mutation) return;
+    setSubjects(next.subjects);
+    setTrash(next.trash);
+    setHolidaySets(next.holidaySets);
+    setSemesters(next.semesters);
+    setMutationLog(log => recordMutation(log, mutation));
+    setToast(toastMessage ? { id: Date.now(), message: toastMessage } : null);
+  };
+
+  const replaceSubjects = (updated: Subject[]) => {
+    const byId = new Map(updated.map(s => [s.id, s]));
+    return subjects.map(s => byId.get(s.id) ?? s);
+  };
 
-  const handleSaveSubject = (subject: Subject) => {
+  const handleSaveSubject = (saved: Subject) => {
+    if (isLocked(saved.id)) return;
+    const subject = normalizeSubject(saved);
     if (editingSubject) {
-      setSubjects(prev => prev.map(s => s.id === subject.id ? subject : s));
+      commit(`Edit ${subject.name}`, { subjects: replaceSubjects([subject]), trash });
     } else {
-      setSubjects(prev => [...prev, subject]);
+      commit(`Add ${subject.name}`, { subjects: [...subjects, subject], trash });
     }
     setEditingSubject(undefined);
   };
 
   const handleUpdateSubject = (updated: Subject) => {
-    setSubjects(prev => prev.map(s => s.id === updated.id ? updated : s));
+    if (isLocked(updated.id)) return;
+    const subject = normalizeSubject(updated);
+    commit(`Update ${subject.name}`, { subjects: replaceSubjects([subject]), trash });
+  };
+
+  // Bulk logging can touch several subjects at once
+  const handleUpdateSubjects = (updated: Subject[], label: string = 'Log classes') => {
+    const unlocked = updated.filter(s => !isLocked(s.id)).map(normalizeSubject);
+    commit(label, { subjects: replaceSubjects(unlocked), trash });
   };
 
   const handleDeleteSubject = (id: string) => {
-    setSubjects(prev => prev.filter(s => s.id !== id));
+    if (isLocked(id)) return;
+    const name = subjects.find(s => s.id === id)?.name;
+    commit(`Delete ${name}`, moveToTrash(undoableState, id), `Deleted ${name}`);
+  };
+
+  const handleRestoreSubject = (id: string) => {
+    commit('Restore subject', restoreFromTrash(undoableState, id));
+    triggerHaptic('success');
+  };
+
+  const handlePurgeSubject = (id: string) => {
+    commit('Delete forever', { subjects, trash: trash.filter(entry => entry.id !== id) }, 'Deleted permanently');
+  };
+
+  // Merged subjects keep their own updatedAt, so they aren't normalized again
+  const handleSyncReceive = (remote: SyncPayload) => {
+    const merged = mergeSyncState(undoableState, remote);
+    commit('Sync', {
+      ...merged,
+      subjects: merged.subjects.map(s => withDerivedCounts(s, settings)),
+    }, 'Synced from another device');
+  };
+
+  const handleToggleHolidaySet = (subjectId: string, setId: string) => {
+    if (isLocked(subjectId)) return;
+    const subject = subjects.find(s => s.id === subjectId);
+    if (!subject) return;
+    commit('Change holidays', { subjects: replaceSubjects([toggleSubjectHolidaySet(subject, setId)]), trash });
   };
 
   const handleEditSubject = (subject: Subject) => {
+    if (isLocked(subject.id)) return;
     setEditingSubject(subject);
     setIsModalOpen(true);
   };
@@ -276,19 +507,157 @@ const App: React.FC = () => {
     setIsModalOpen(true);
   };
 
-  const handleImportSubjects = (importedSubjects: Subject[]) => {
-      setSubjects(importedSubjects);
+  const handleRepairSubjects = (strategy: RepairStrategy) => {
+    const affected = new Set(subjectIssues.map(issue => issue.subjectId));
+    commit(
+      'Repair counts',
+      { subjects: subjects.map(s => affected.has(s.id) ? repairSubject(s, settings, strategy) : s), trash },
+      'Counts repaired'
+    );
+    setSubjectIssues([]);
+    triggerHaptic('success');
+  };
+
+  // Shared templates can bring holiday sets the subjects refer to
+  const handleSaveTimetable = (newSubjects: Subject[], newHolidaySets: HolidaySet[]) => {
+    commit('Import timetable', {
+      subjects: [...subjects, ...newSubjects.map(normalizeSubject)],
+      holidaySets: [...holidaySets, ...newHolidaySets],
+    }, 'Timetable imported');
+    handleCloseTimetableImport();
+    triggerHaptic('success');
+  };
+
+  const handleCloseTimetableImport = () => {
+    setIsTimetableImportOpen(false);
+    setTemplateImport(null);
+  };
+
+  // Imported subjects are validated like stored ones and join the semester
+  // being viewed, so they are only matched against that semester's subjects
+  const handleImportSubjects = (importedSubjects: unknown) => {
+      if (isReadOnly) {
+          alert(`${activeSemester?.name ?? 'This semester'} is archived. Unarchive it to import into it.`);
+          return;
+      }
+      const { subjects: incoming, skipped } = readImportedSubjects(importedSubjects, activeSemesterId);
+      setPendingImport({ plan: planImport(semesterSubjects, incoming), skipped });
+  };
+
+  const handleApplyImport = (plan: ImportMatch[]) => {
+      if (isReadOnly || plan.some(match => match.existing && isLocked(match.existing.id))) return;
+      const next = applyImport(subjects, plan, settings);
+      commit('Import', { subjects: next, trash }, 'Import applied');
+      setSubjectIssues(findSubjectIssues(next, settings));
+      setPendingImport(null);
       triggerHaptic('success');
-      alert('Data restored successfully.');
       setCurrentView('dashboard');
   };
 
+  const applyHistoryStep = (result: ReturnType<typeof undoMutation>) => {
+      if (!result) return;
+      setSubjects(result.state.subjects);
+      setTrash(result.state.trash);
+      setHolidaySets(result.state.holidaySets);
+      setSemesters(result.state.semesters);
+      setMutationLog(result.log);
+      setSubjectIssues([]);
+      setToast(null);
+  };
+
+  const handleUndo = () => applyHistoryStep(undoMutation(mutationLog, undoableState));
+  const handleRedo = () => applyHistoryStep(redoMutation(mutationLog, undoableState));
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo, outside text fields
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Ctrl/Cmd+K toggles the command palette, even from a text field, unless another dialog is up
+  const isDialogOpen = isModalOpen || isTimetableImportOpen || pendingImport !== null || pendingMark !== null;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'k' || isDialogOpen) return;
+      e.preventDefault();
+      setIsPaletteOpen(open => !open);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isDialogOpen]);
+
+  const handleDismissToast = useCallback(() => {
+      setToast(null);
+  }, []);
+
+  const handleCreateSemester = (semester: Semester, cloneFromId?: string) => {
+      setSemesters(prev => [...prev, semester]);
+      if (cloneFromId) {
+          const cloned = cloneTimetable(getSemesterSubjects(subjects, cloneFromId), semester);
+          commit('Copy timetable', { subjects: [...subjects, ...cloned.map(normalizeSubject)], trash });
+      }
+      setActiveSemesterId(semester.id);
+  };
+
+  const handleSetSemesterArchived = (semesterId: string, archived: boolean) => {
+      setSemesters(prev => prev.map(s => s.id === semesterId ? { ...s, archivedAt: archived ? Date.now() : undefined } : s));
+  };
+
+  // What a ?mark= link would do, or why it can't
+  const getMarkRequest = (): MarkRequest | null => {
+      if (!pendingMark) return null;
+      const subject = subjects.find(s => s.id === pendingMark.subjectId);
+      const date = pendingMark.date ?? (subject ? getSubjectToday(subject) : getTodayIn());
+      const problem = !subject ? "This link is for a subject that isn't on this device."
+          : isLocked(subject.id) ? `${subject.name} is in an archived semester.`
+          : date > getSubjectToday(subject) ? "Classes can't be marked ahead of time."
+          : getClassesOnDate([subject], holidaySets, date).length === 0 ? `${subject.name} has no class that day.`
+          : null;
+      return { subjectName: subject?.name, status: pendingMark.status, date, problem };
+  };
+
+  const handleConfirmMark = () => {
+      const request = getMarkRequest();
+      const subject = subjects.find(s => s.id === pendingMark?.subjectId);
+      if (!request || request.problem || !subject) return;
+      handleUpdateSubjects(
+          logDay([subject], holidaySets, request.date, request.status),
+          `Mark ${subject.name} ${STATUS_LABELS[request.status].toLowerCase()}`
+      );
+      setPendingMark(null);
+      triggerHaptic('success');
+  };
+
+  // One-tap marking from the compact view; tapping the current status clears it
+  const handleQuickMark = (subjectId: string, slotId: string, date: string, status: RecordStatus) => {
+      const subject = subjects.find(s => s.id === subjectId);
+      const dayClass = subject && getClassesOnDate([subject], holidaySets, date).find(c => c.slot.id === slotId);
+      if (!subject || !dayClass) return;
+      handleUpdateSubjects(
+          [dayClass.record?.status === status ? unlogClass(subject, date, dayClass.slot) : logClass(subject, date, dayClass.slot, status)],
+          `Mark ${subject.name} ${STATUS_LABELS[status].toLowerCase()}`
+      );
+  };
+
   // --- GENIE NAVIGATION HANDLER ---
-  const handleViewChange = (view: typeof currentView, e: React.MouseEvent<HTMLButtonElement>) => {
+  // Without a click (command palette), the view grows from the dock's position instead
+  const handleViewChange = (view: AppView, e?: React.MouseEvent<HTMLButtonElement>) => {
       // 1. Get exact position of the clicked icon center
-      const rect = e.currentTarget.getBoundingClientRect();
-      const centerX = rect.left + rect.width / 2;
-      const centerY = rect.top + rect.height / 2;
+      const rect = (e?.currentTarget ?? dockRef.current)?.getBoundingClientRect();
+      const centerX = rect ? rect.left + rect.width / 2 : window.innerWidth / 2;
+      const centerY = rect ? rect.top + rect.height / 2 : window.innerHeight;
       
       // 2. Set the Transform Origin for the incoming view to be that center point
       setAnimOrigin({ x: centerX, y: centerY });
@@ -297,6 +666,136 @@ const App: React.FC = () => {
       setCurrentView(view);
   };
 
+  // Arrow keys move focus along the dock; Enter or Space opens the focused view
+  const handleDockKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+      const tabs = Array.from(dockRef.current?.querySelectorAll<HTMLButtonElement>('[role="tab"]') ?? []);
+      const index = tabs.indexOf(document.activeElement as HTMLButtonElement);
+      if (index === -1) return;
+      const next = {
+          ArrowLeft: index - 1,
+          ArrowRight: index + 1,
+          Home: 0,
+          End: tabs.length - 1,
+      }[e.key];
+      if (next === undefined) return;
+      e.preventDefault();
+      tabs[(next + tabs.length) % tabs.length].focus();
+  };
+
+  // Keyboard focus magnifies the dock the same way the pointer does
+  const handleDockFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+      if (!e.target.matches(':focus-visible')) return;
+      const rect = e.target.getBoundingClientRect();
+      setMouseX(rect.left + rect.width / 2);
+  };
+
+  const handleDockBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+      if (!dockRef.current?.contains(e.relatedTarget as Node | null)) setMouseX(null);
+  };
+
+  // Ordered by group so the palette can show each heading once
+  const getCommands = (): Command[] => {
+      const views: { view: AppView; icon: React.ReactNode }[] = [
+          { view: 'dashboard', icon: <LayoutGrid size={16} /> },
+          { view: 'calendar', icon: <Calendar size={16} /> },
+          { view: 'analytics', icon: <BarChart3 size={16} /> },
+          { view: 'settings', icon: <Settings size={16} /> },
+      ];
+      const editable = isReadOnly ? [] : semesterSubjects.filter(s => !isLocked(s.id));
+      // Marking uses the subject's own "today", and only subjects that meet then
+      const meetingToday = editable.filter(s => getClassesOnDate([s], holidaySets, getSubjectToday(s)).length > 0);
+      const mark = (subject: Subject, status: 'PRESENT' | 'ABSENT') => {
+          handleUpdateSubjects(
+              logDay([subject], holidaySets, getSubjectToday(subject), status),
+              `Mark ${subject.name} ${status === 'PRESENT' ? 'present' : 'absent'}`
+          );
+          triggerHaptic('success');
+      };
+
+      return [
+          ...views.map(({ view, icon }) => ({
+              id: `view-${view}`,
+              label: `Go to ${VIEW_LABELS[view]}`,
+              group: 'Navigate',
+              hint: currentView === view ? 'Current' : undefined,
+              keywords: view === 'settings' ? 'settings' : undefined,
+              icon,
+              run: () => handleViewChange(view),
+          })),
+          ...meetingToday.flatMap(subject => [
+              {
+                  id: `present-${subject.id}`,
+                  label: `Mark ${subject.name} present`,
+                  group: 'Today',
+                  keywords: 'attended log',
+                  icon: <Check size={16} />,
+                  run: () => mark(subject, 'PRESENT'),
+              },
+              {
+                  id: `absent-${subject.id}`,
+                  label: `Mark ${subject.name} absent`,
+                  group: 'Today',
+                  keywords: 'skip bunk missed log',
+                  icon: <X size={16} />,
+                  run: () => mark(subject, 'ABSENT'),
+              },
+          ]),
+          ...(isReadOnly ? [] : [{
+              id: 'add-subject',
+              label: 'Add subject',
+              group: 'Subjects',
+              keywords: 'new create',
+              icon: <Plus size={16} />,
+              run: handleOpenModal,
+          }]),
+          ...editable.map(subject => ({
+              id: `edit-${subject.id}`,
+              label: `Edit ${subject.name}`,
+              group: 'Subjects',
+              icon: <Pencil size={16} />,
+              run: () => handleEditSubject(subject),
+          })),
+          ...(isReadOnly ? [] : [{
+              id: 'import-timetable',
+              label: 'Import timetable',
+              group: 'Import & Export',
+              hint: '.csv, .ics or shared',
+              keywords: 'upload file',
+              icon: <FileUp size={16} />,
+              run: () => setIsTimetableImportOpen(true),
+          }]),
+          ...(semesterSubjects.length === 0 ? [] : getExportActions(semesterSubjects, settings, holidaySets, getTodayIn()).map(action => ({
+              id: `export-${action.label}`,
+              label: `Export ${action.label.toLowerCase()}`,
+              group: 'Import & Export',
+              hint: action.hint,
+              keywords: 'download',
+              icon: action.icon,
+              run: action.run,
+          }))),
+          ...(mutationLog.past.length > 0 ? [{
+              id: 'undo', label: 'Undo', group: 'Edit', hint: 'Ctrl+Z', icon: <Undo2 size={16} />, run: handleUndo,
+          }] : []),
+          ...(mutationLog.future.length > 0 ? [{
+              id: 'redo', label: 'Redo', group: 'Edit', hint: 'Ctrl+Shift+Z', icon: <Redo2 size={16} />, run: handleRedo,
+          }] : []),
+      ];
+  };
+
+  if (needsUpdate) return <UpdateRequired />;
+
+  if (isCompact) {
+    return (
+      <>
+        <TodayView
+          summary={isHydrated ? buildTodaySummary(subjects.filter(s => !isLocked(s.id)), settings, holidaySets) : null}
+          onMark={handleQuickMark}
+        />
+        <UndoToast toast={toast} onUndo={handleUndo} onDismiss={handleDismissToast} />
+      </>
+    );
+  }
+
   return (
     <div className="min-h-screen pb-32 relative overflow-hidden">
       
@@ -312,19 +811,92 @@ const App: React.FC = () => {
               <p className="text-[10px] text-gray-400 font-semibold tracking-widest uppercase opacity-80">Attendance OS</p>
             </div>
           </div>
-          {currentView === 'dashboard' && (
+          <div className="flex items-center gap-2">
+          <button
+             onClick={() => setIsPaletteOpen(true)}
+             title="Commands (Ctrl+K)"
+             aria-label="Open command palette"
+             aria-keyshortcuts="Control+K Meta+K"
+             className="hidden sm:flex w-8 h-8 bg-white/5 hover:bg-white/10 text-gray-300 rounded-full items-center justify-center transition-all duration-300 border border-white/10"
+          >
+            <Search size={16} />
+          </button>
+          {(mutationLog.past.length > 0 || mutationLog.future.length > 0) && (
+            <div className="flex items-center gap-1 mr-1">
+             {([
+                { label: 'Undo', icon: <Undo2 size={16} />, onClick: handleUndo, enabled: mutationLog.past.length > 0 },
+                { label: 'Redo', icon: <Redo2 size={16} />, onClick: handleRedo, enabled: mutationLog.future.length > 0 },
+             ]).map(({ label, icon, onClick, enabled }) => (
+               <button
+                  key={label}
+                  onClick={onClick}
+                  disabled={!enabled}
+                  title={label}
+                  aria-label={label}
+                  className="w-8 h-8 bg-white/5 hover:bg-white/10 text-gray-300 rounded-full flex items-center justify-center transition-all duration-300 border border-white/10 disabled:opacity-30 disabled:hover:bg-white/5"
+               >
+                 {icon}
+               </button>
+             ))}
+            </div>
+          )}
+          {currentView === 'dashboard' && !isReadOnly && (
+            <div className="flex items-center gap-2">
+             <button 
+                onClick={() => setIsTimetableImportOpen(true)} 
+                title="Import timetable"
+                aria-label="Import timetable"
+                className="w-10 h-10 bg-white/5 hover:bg-white/10 text-gray-300 rounded-full flex items-center justify-center transition-all duration-300 hover:scale-110 active:scale-95 border border-white/10"
+             >
+               <FileUp size={18} />
+             </button>
              <button 
                 onClick={handleOpenModal} 
+                title="Add subject"
+                aria-label="Add subject"
                 className="w-10 h-10 bg-[#0A84FF] hover:bg-[#0071e3] text-white rounded-full flex items-center justify-center shadow-[0_0_20px_rgba(10,132,255,0.4)] transition-all duration-300 hover:scale-110 active:scale-95 border border-white/20"
              >
                <Plus size={22} strokeWidth={2.5} />
              </button>
+            </div>
           )}
+          </div>
         </div>
       </header>
 
       {/* Main Content Area with GENIE ANIMATION CONTAINER */}
       <main className="max-w-3xl mx-auto px-4 pt-28 perspective-2000">
+        {safeMode && <SafeModeBanner />}
+        <StorageNotice
+            problem={storageProblem}
+            onStartFresh={handleStartFresh}
+            onDismiss={() => setStorageProblem(null)}
+        />
+        <ConsistencyBanner
+            issues={subjectIssues}
+            onRepair={handleRepairSubjects}
+            onDismiss={() => setSubjectIssues([])}
+        />
+
+        {isHydrated && currentView === 'dashboard' && (semesters.length > 1 || isReadOnly) && (
+          <div className="flex items-center justify-between gap-3 mb-6">
+            <select
+              value={activeSemesterId}
+              onChange={e => setActiveSemesterId(e.target.value)}
+              className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-[#0A84FF]/60"
+            >
+              {sortSemesters(semesters).map(semester => (
+                <option key={semester.id} value={semester.id}>{semester.name}</option>
+              ))}
+            </select>
+            {isReadOnly && (
+              <span className="flex items-center gap-1.5 text-xs text-gray-400">
+                <Archive size={14} /> Archived · read-only
+              </span>
+            )}
+          </div>
+        )}
+
         {/* 
             The KEY is crucial. It forces React to destroy the old DOM node and create a new one,
             firing the CSS animation from scratch.
@@ -332,13 +904,15 @@ const App: React.FC = () => {
         */}
         <div 
             key={currentView} 
+            role="tabpanel"
+            aria-label={VIEW_LABELS[currentView]}
             className="animate-mac-genie-open will-change-transform backface-visibility-hidden"
             style={{ 
                 transformOrigin: `${animOrigin.x}px ${animOrigin.y}px` 
             }}
         >
-          {currentView === 'dashboard' && (
-            subjects.length === 0 ? (
+          {isHydrated && currentView === 'dashboard' && (
+            semesterSubjects.length === 0 ? (
               <div className="flex flex-col items-center justify-center mt-20 text-center space-y-8 animate-mac-window-open select-none">
                  {/* Empty State Graphic */}
                  <div className="relative group cursor-default">
@@ -356,18 +930,33 @@ const App: React.FC = () => {
                    <p className="text-gray-400 text-base leading-relaxed font-medium">
                      Add your classes to start the predictive engine. We'll handle the holiday math and bunk calculations based on your {settings.targetPercentage * 100}% target.
                    </p>
+                   <button
+                     onClick={() => setIsTimetableImportOpen(true)}
+                     className="inline-flex items-center gap-2 text-sm font-medium text-[#0A84FF] hover:text-[#409CFF] transition-colors"
+                   >
+                     <FileUp size={16} /> Import a timetable file
+                   </button>
                  </div>
               </div>
             ) : (
               <div className="space-y-6">
-                {subjects.map(subject => (
+                {!isReadOnly && (
+                  <DayLogPanel
+                    subjects={semesterSubjects}
+                    holidaySets={holidaySets}
+                    date={getTodayIn()}
+                    onUpdateSubjects={handleUpdateSubjects}
+                  />
+                )}
+                {semesterSubjects.map(subject => (
                   <SubjectCard
                     key={subject.id}
                     subject={subject}
                     onUpdate={handleUpdateSubject}
                     onDelete={handleDeleteSubject}
                     onEdit={handleEditSubject}
-                    targetPercentage={settings.targetPercentage} // Pass global setting
+                    targetPercentage={getSubjectTarget(subject, settings)} // Profile target or per-subject override
+                    projection={projectAttendance(subject, settings, holidaySets)} // Slots, status rules, sessions and holidays applied
                   />
                 ))}
               </div>
@@ -375,7 +964,39 @@ const App: React.FC = () => {
           )}
 
           {currentView === 'calendar' && (
-            <CalendarView subjects={subjects} targetPercentage={settings.targetPercentage} />
+            <CalendarView
+                subjects={semesterSubjects}
+                settings={settings} // Per-subject targets come from getSubjectTarget
+                holidaySets={holidaySets}
+            />
+          )}
+
+          {currentView === 'calendar' && !isReadOnly && (
+            <div className="mt-6">
+              <DayLogPanel
+                  subjects={semesterSubjects}
+                  holidaySets={holidaySets}
+                  date={logDate}
+                  onDateChange={setLogDate}
+                  onUpdateSubjects={handleUpdateSubjects}
+              />
+            </div>
+          )}
+
+          {currentView === 'calendar' && !isReadOnly && (
+            <WeeklySlotsPanel subjects={semesterSubjects.filter(s => !isLocked(s.id))} onUpdateSubjects={handleUpdateSubjects} />
+          )}
+
+          {currentView === 'calendar' && !isReadOnly && (
+            <ExtraSessionsPanel subjects={semesterSubjects.filter(s => !isLocked(s.id))} onUpdateSubjects={handleUpdateSubjects} />
+          )}
+
+          {currentView === 'calendar' && (
+            <BunkPlanner subjects={semesterSubjects} settings={settings} holidaySets={holidaySets} />
+          )}
+
+          {currentView === 'analytics' && (
+            <AnalyticsView subjects={semesterSubjects} settings={settings} holidaySets={holidaySets} />
           )}
 
           {currentView === 'settings' && (
@@ -386,6 +1007,75 @@ const App: React.FC = () => {
                 onImport={handleImportSubjects}
             />
           )}
+
+          {currentView === 'settings' && (
+            <ReminderRulesSettings
+                settings={settings}
+                subjects={semesterSubjects}
+                onUpdate={setSettings}
+                onUpdateSubject={handleUpdateSubject}
+            />
+          )}
+
+          {currentView === 'settings' && <NotificationLog />}
+
+          {currentView === 'settings' && (
+            <TimeZoneSettings subjects={semesterSubjects} onUpdateSubjects={handleUpdateSubjects} />
+          )}
+
+          {currentView === 'settings' && (
+            <AttendanceRulesSettings settings={settings} onUpdate={setSettings} />
+          )}
+
+          {currentView === 'settings' && (
+            <RuleProfileSettings
+                settings={settings}
+                subjects={semesterSubjects}
+                onUpdate={setSettings}
+                onUpdateSubject={handleUpdateSubject}
+            />
+          )}
+
+          {currentView === 'settings' && (
+            <SemesterManager
+                semesters={semesters}
+                subjects={subjects}
+                settings={settings}
+                activeSemesterId={activeSemesterId}
+                onSelect={setActiveSemesterId}
+                onCreate={handleCreateSemester}
+                onSetArchived={handleSetSemesterArchived}
+            />
+          )}
+
+          {currentView === 'settings' && (
+            <TrashBin trash={trash} onRestore={handleRestoreSubject} onPurge={handlePurgeSubject} />
+          )}
+
+          {currentView === 'settings' && (
+            <TemplateSharePanel
+                subjects={semesterSubjects}
+                holidaySets={holidaySets}
+                defaultName={activeSemester?.name ?? ''}
+            />
+          )}
+
+          {currentView === 'settings' && (
+            <SyncPanel state={{ subjects, trash, holidaySets, semesters }} onReceive={handleSyncReceive} />
+          )}
+
+          {currentView === 'settings' && (
+            <ExportPanel subjects={semesterSubjects} settings={settings} holidaySets={holidaySets} />
+          )}
+
+          {currentView === 'settings' && (
+            <HolidayManager
+                holidaySets={holidaySets}
+                subjects={semesterSubjects}
+                onChange={setHolidaySets}
+                onToggleSubject={handleToggleHolidaySet}
+            />
+          )}
         </div>
       </main>
 
@@ -401,6 +1091,11 @@ const App: React.FC = () => {
            ref={dockRef}
            onMouseMove={(e) => setMouseX(e.clientX)}
            onMouseLeave={() => setMouseX(null)}
+           onKeyDown={handleDockKeyDown}
+           onFocus={handleDockFocus}
+           onBlur={handleDockBlur}
+           role="tablist"
+           aria-label="Views"
            className="
               relative flex items-end gap-2.5 px-3 h-[58px]
               bg-[#1c1c1e]/40 backdrop-blur-2xl rounded-[20px]
@@ -410,7 +1105,7 @@ const App: React.FC = () => {
          >
             <DockIcon 
                icon={<LayoutGrid />} 
-               label="Dashboard" 
+               label={VIEW_LABELS.dashboard} 
                isActive={currentView === 'dashboard'} 
                onClick={(e) => handleViewChange('dashboard', e)}
                mouseX={mouseX}
@@ -418,12 +1113,20 @@ const App: React.FC = () => {
             />
             <DockIcon 
                icon={<Calendar />} 
-               label="Calendar" 
+               label={VIEW_LABELS.calendar} 
                isActive={currentView === 'calendar'} 
                onClick={(e) => handleViewChange('calendar', e)}
                mouseX={mouseX}
                dockRef={dockRef}
             />
+            <DockIcon 
+               icon={<BarChart3 />} 
+               label={VIEW_LABELS.analytics} 
+               isActive={currentView === 'analytics'} 
+               onClick={(e) => handleViewChange('analytics', e)}
+               mouseX={mouseX}
+               dockRef={dockRef}
+            />
             
             {/* 
                Separator: Fixed vertical line
@@ -432,7 +1135,7 @@ const App: React.FC = () => {
 
             <DockIcon 
                icon={<Settings />} 
-               label="Preferences" 
+               label={VIEW_LABELS.settings} 
                isActive={currentView === 'settings'} 
                onClick={(e) => handleViewChange('settings', e)}
                mouseX={mouseX}
@@ -447,6 +1150,32 @@ const App: React.FC = () => {
         onSave={handleSaveSubject}
         initialData={editingSubject}
       />
+
+      <TimetableImportModal
+        isOpen={isTimetableImportOpen}
+        existingSubjects={semesterSubjects}
+        holidaySets={holidaySets}
+        initial={templateImport}
+        onClose={handleCloseTimetableImport}
+        onSave={handleSaveTimetable}
+      />
+
+      <ImportPreviewModal
+        plan={pendingImport?.plan ?? null}
+        skipped={pendingImport?.skipped}
+        onClose={() => setPendingImport(null)}
+        onApply={handleApplyImport}
+      />
+
+      <MarkConfirmModal request={getMarkRequest()} onConfirm={handleConfirmMark} onClose={() => setPendingMark(null)} />
+
+      <CommandPalette
+        isOpen={isPaletteOpen}
+        commands={isPaletteOpen ? getCommands() : []}
+        onClose={() => setIsPaletteOpen(false)}
+      />
+
+      <UndoToast toast={toast} onUndo={handleUndo} onDismiss={handleDismissToast} />
     </div>
   );
 };
@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { AppSettings, DayOfWeek, HolidaySet, Subject } from '../types';
+import { BarChart3, Flame, TrendingUp, TrendingDown } from 'lucide-react';
+import {
+  findTargetCrossing, getAbsenceStreaks, getPercentageTimeline, getWeekdayBreakdown, TimelinePoint,
+} from '../utils/analytics';
+import { getSubjectTarget } from '../utils/rules';
+import { ANALYTICS_TREND_DAYS } from '../constants';
+import { parseISODate, getTodayIn } from '../utils/dates';
+
+interface AnalyticsViewProps {
+  subjects: Subject[];
+  settings: AppSettings;
+  holidaySets: HolidaySet[];
+}
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 64;
+
+const formatDate = (date: string) =>
+  parseISODate(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+// Percentage over time on a fixed 0-100 scale, with the target as a dashed line
+const Sparkline: React.FC<{ points: TimelinePoint[]; target: number }> = ({ points, target }) => {
+  const y = (percentage: number) => CHART_HEIGHT - (percentage / 100) * CHART_HEIGHT;
+  const x = (index: number) => (points.length === 1 ? CHART_WIDTH : (index / (points.length - 1)) * CHART_WIDTH);
+  const path = points.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(point.percentage).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-16" preserveAspectRatio="none">
+      <line x1={0} x2={CHART_WIDTH} y1={y(target * 100)} y2={y(target * 100)} stroke="rgba(255,255,255,0.25)" strokeDasharray="4 4" />
+      <path d={path} fill="none" stroke="#0A84FF" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ subjects, settings, holidaySets }) => {
+  const today = getTodayIn();
+
+  const rows = useMemo(() => subjects.map(subject => ({
+    subject,
+    target: getSubjectTarget(subject, settings),
+    timeline: getPercentageTimeline(subject, settings),
+    streaks: getAbsenceStreaks(subject, settings),
+    crossing: findTargetCrossing(subject, settings, holidaySets, today),
+  })), [subjects, settings, holidaySets, today]);
+
+  const weekdays = useMemo(() => getWeekdayBreakdown(subjects, settings), [subjects, settings]);
+  const worstMissRate = Math.max(0, ...weekdays.map(w => (w.held > 0 ? w.missed / w.held : 0)));
+
+  if (subjects.length === 0) {
+    return <p className="text-center text-gray-500 mt-20">Add subjects and log a few classes to see analytics.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="pro-glass relative rounded-[24px] p-6 space-y-4">
+        <div className="relative z-10 flex items-center gap-3">
+          <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+            <BarChart3 size={18} className="text-[#0A84FF]" />
+          </div>
+          <div>
+            <h2 className="text-base font-semibold text-white">Skips by Weekday</h2>
+            <p className="text-xs text-gray-400">Share of held classes you missed</p>
+          </div>
+        </div>
+        <div className="relative z-10 grid grid-cols-7 gap-2 items-end h-28">
+          {weekdays.map(({ day, held, missed }) => {
+            const rate = held > 0 ? missed / held : 0;
+            const isWorst = rate > 0 && rate === worstMissRate;
+            return (
+              <div key={day} className="flex flex-col items-center justify-end h-full gap-1">
+                <span className="text-[10px] text-gray-400 tabular-nums">{held > 0 ? `${Math.round(rate * 100)}%` : ''}</span>
+                <div
+                  className={`w-full rounded-md ${isWorst ? 'bg-amber-400' : 'bg-[#0A84FF]/70'}`}
+                  style={{ height: `${Math.max(4, rate * 100)}%`, opacity: held > 0 ? 1 : 0.2 }}
+                />
+                <span className="text-[10px] text-gray-500">{DayOfWeek[day].slice(0, 3)}</span>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      {rows.map(({ subject, target, timeline, streaks, crossing }) => (
+        <section key={subject.id} className="pro-glass relative rounded-[24px] p-6 space-y-3">
+          <div className="relative z-10 flex justify-between items-baseline gap-3">
+            <h3 className="text-base font-semibold text-white truncate">{subject.name}</h3>
+            <span className="text-xs text-gray-500 shrink-0">Target {Math.round(target * 100)}%</span>
+          </div>
+
+          <div className="relative z-10">
+            {timeline.length > 0
+              ? <Sparkline points={timeline} target={target} />
+              : <p className="text-xs text-gray-500">No classes logged yet.</p>}
+          </div>
+
+          <div className="relative z-10 grid grid-cols-2 gap-3 text-xs">
+            <div className="flex items-start gap-2">
+              <Flame size={14} className={streaks.current > 0 ? 'text-amber-400 mt-0.5' : 'text-gray-500 mt-0.5'} />
+              <div>
+                <p className="text-white tabular-nums">{streaks.current} absence{streaks.current !== 1 && 's'} in a row</p>
+                <p className="text-gray-500">
+                  Longest {streaks.longest}
+                  {streaks.longestEndedOn && ` (to ${formatDate(streaks.longestEndedOn)})`}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-start gap-2">
+              {crossing?.direction === 'BELOW'
+                ? <TrendingDown size={14} className="text-red-400 mt-0.5" />
+                : <TrendingUp size={14} className={crossing ? 'text-emerald-400 mt-0.5' : 'text-gray-500 mt-0.5'} />}
+              <div>
+                {crossing ? (
+                  <p className="text-white">
+                    {crossing.direction === 'ABOVE' ? 'Back above' : 'Drops below'} target ~{formatDate(crossing.date)}
+                  </p>
+                ) : (
+                  <p className="text-white">No target crossing expected</p>
+                )}
+                <p className="text-gray-500">At your pace over the last {ANALYTICS_TREND_DAYS} days</p>
+              </div>
+            </div>
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
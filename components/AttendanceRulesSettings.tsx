@@ -0,0 +1,70 @@
+import React from 'react';
+import { AppSettings } from '../types';
+import { ClipboardCheck } from 'lucide-react';
+import { DEFAULT_LATE_CREDIT, DEFAULT_LEAVE_CAP } from '../constants';
+
+interface AttendanceRulesSettingsProps {
+  settings: AppSettings;
+  onUpdate: (settings: AppSettings) => void;
+}
+
+const LATE_OPTIONS = [
+  { value: 1, label: 'Present' },
+  { value: 0.5, label: 'Half' },
+  { value: 0, label: 'Absent' },
+];
+
+export const AttendanceRulesSettings: React.FC<AttendanceRulesSettingsProps> = ({ settings, onUpdate }) => {
+  const leaveCap = settings.leaveCap ?? DEFAULT_LEAVE_CAP;
+  const lateCredit = settings.lateCredit ?? DEFAULT_LATE_CREDIT;
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-5 mt-6">
+      <div className="relative z-10 flex items-center gap-3">
+        <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+          <ClipboardCheck size={18} className="text-[#0A84FF]" />
+        </div>
+        <div>
+          <h2 className="text-base font-semibold text-white">Attendance Rules</h2>
+          <p className="text-xs text-gray-400">How leave and late marks affect your percentage</p>
+        </div>
+      </div>
+
+      <div className="relative z-10 space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-300">Medical & duty leave cap</span>
+          <span className="text-white font-semibold tabular-nums">{Math.round(leaveCap * 100)}%</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={0.3}
+          step={0.01}
+          value={leaveCap}
+          onChange={e => onUpdate({ ...settings, leaveCap: Number(e.target.value) })}
+          className="w-full accent-[#0A84FF]"
+        />
+        <p className="text-[11px] text-gray-500">Approved leave counts as attended for up to this share of held classes.</p>
+      </div>
+
+      <div className="relative z-10 flex items-center justify-between">
+        <span className="text-sm text-gray-300">Late marks count as</span>
+        <div className="flex bg-white/5 border border-white/10 rounded-lg p-0.5">
+          {LATE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onUpdate({ ...settings, lateCredit: option.value })}
+              className={`text-xs px-3 py-1.5 rounded-md transition-colors ${
+                lateCredit === option.value ? 'bg-[#0A84FF] text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="relative z-10 text-[11px] text-gray-500">Cancelled classes never count toward your total.</p>
+    </section>
+  );
+};
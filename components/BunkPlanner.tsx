@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { AppSettings, AttendanceStatus, HolidaySet, Subject } from '../types';
+import { Plane, Plus, X, AlertTriangle, ArrowRight } from 'lucide-react';
+import { simulateSkips } from '../utils/whatIf';
+import { datesBetween, getTodayIn } from '../utils/dates';
+
+interface BunkPlannerProps {
+  subjects: Subject[];
+  settings: AppSettings;
+  holidaySets: HolidaySet[];
+}
+
+const STATUS_COLORS: Record<AttendanceStatus, string> = {
+  SAFE: 'text-emerald-400',
+  DANGER: 'text-amber-400',
+  IMPOSSIBLE: 'text-red-400',
+};
+
+const inputClass = 'bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-[#0A84FF]/60';
+
+export const BunkPlanner: React.FC<BunkPlannerProps> = ({ subjects, settings, holidaySets }) => {
+  const today = getTodayIn();
+  const [dates, setDates] = useState<string[]>([]);
+  const [range, setRange] = useState({ start: '', end: '' });
+
+  const results = useMemo(
+    () => simulateSkips(subjects, settings, holidaySets, dates, today),
+    [subjects, settings, holidaySets, dates, today]
+  );
+
+  const handleAdd = () => {
+    if (!range.start) return;
+    const added = datesBetween(range.start, range.end || range.start);
+    setDates(prev => Array.from(new Set([...prev, ...added])).sort());
+    setRange({ start: '', end: '' });
+  };
+
+  const crossing = results.filter(r => r.crossesTarget);
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-5 mt-6">
+      <div className="relative z-10 flex items-center gap-3">
+        <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+          <Plane size={18} className="text-[#0A84FF]" />
+        </div>
+        <div>
+          <h2 className="text-base font-semibold text-white">What-if Planner</h2>
+          <p className="text-xs text-gray-400">Pick days to skip and see what happens</p>
+        </div>
+      </div>
+
+      <div className="relative z-10 flex flex-wrap items-center gap-2">
+        <input type="date" min={today} value={range.start} onChange={e => setRange({ ...range, start: e.target.value })} className={inputClass} />
+        <ArrowRight size={14} className="text-gray-500" />
+        <input type="date" min={range.start || today} value={range.end} onChange={e => setRange({ ...range, end: e.target.value })} className={inputClass} />
+        <button onClick={handleAdd} className="flex items-center gap-1 px-3 py-2 rounded-lg bg-[#0A84FF] hover:bg-[#0077ED] text-white text-sm font-medium">
+          <Plus size={14} /> Add
+        </button>
+      </div>
+
+      {dates.length > 0 && (
+        <div className="relative z-10 flex flex-wrap gap-1.5">
+          {dates.map(date => (
+            <span key={date} className="flex items-center gap-1 text-[11px] pl-2.5 pr-1.5 py-1 rounded-full bg-white/10 text-gray-200 tabular-nums">
+              {date}
+              <button onClick={() => setDates(prev => prev.filter(d => d !== date))} className="text-gray-500 hover:text-white">
+                <X size={11} />
+              </button>
+            </span>
+          ))}
+          <button onClick={() => setDates([])} className="text-[11px] text-gray-500 hover:text-white px-2">Clear</button>
+        </div>
+      )}
+
+      {crossing.length > 0 && (
+        <div className="relative z-10 flex items-start gap-2 rounded-xl bg-red-500/10 border border-red-500/20 p-3 text-xs text-red-300">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          <span>
+            This plan drops {crossing.map(r => r.subject.name).join(', ')} below their attendance target.
+          </span>
+        </div>
+      )}
+
+      {dates.length > 0 && results.length === 0 && (
+        <p className="relative z-10 text-xs text-gray-500">No classes fall on the selected days.</p>
+      )}
+
+      {results.length > 0 && (
+        <ul className="relative z-10 space-y-2">
+          {results.map(({ subject, skippedUnits, before, after, crossesTarget }) => (
+            <li key={subject.id} className={`rounded-xl p-3 bg-white/5 border ${crossesTarget ? 'border-red-500/30' : 'border-white/5'}`}>
+              <div className="flex justify-between items-baseline gap-3">
+                <span className="text-sm font-medium text-white truncate">{subject.name}</span>
+                <span className="text-[11px] text-gray-500 shrink-0">skips {skippedUnits} class{skippedUnits !== 1 && 'es'}</span>
+              </div>
+              <div className="mt-2 grid grid-cols-3 gap-2 text-[11px]">
+                <div>
+                  <p className="text-gray-500">Percentage</p>
+                  <p className="text-white tabular-nums">{before.percentage.toFixed(1)}% → {after.percentage.toFixed(1)}%</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Status</p>
+                  <p>
+                    <span className={STATUS_COLORS[before.status]}>{before.status}</span>
+                    <span className="text-gray-500"> → </span>
+                    <span className={STATUS_COLORS[after.status]}>{after.status}</span>
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">To recover</p>
+                  <p className="text-white tabular-nums">
+                    {Number.isFinite(after.classesToRecover) ? after.classesToRecover : '—'}
+                    <span className="text-gray-500"> (bunks left {after.bunksRange.pessimistic === after.bunksRange.optimistic
+                      ? after.bunksAvailable
+                      : `${after.bunksRange.pessimistic}–${after.bunksRange.optimistic}`})</span>
+                  </p>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
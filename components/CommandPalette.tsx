@@ -0,0 +1,139 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, CornerDownLeft } from 'lucide-react';
+import { useDialogFocus } from '../utils/focus';
+
+export interface Command {
+  id: string;
+  label: string;
+  group: string;
+  hint?: string;
+  keywords?: string;
+  icon?: React.ReactNode;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  commands: Command[];
+  onClose: () => void;
+}
+
+const optionId = (command: Command) => `command-${command.id}`;
+
+// Every word typed must appear somewhere in the label, group or keywords
+const matches = (command: Command, query: string) => {
+  const haystack = `${command.label} ${command.group} ${command.keywords ?? ''}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, commands, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useDialogFocus(dialogRef, isOpen, onClose);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setActiveIndex(0);
+  }, [isOpen]);
+
+  const results = useMemo(() => commands.filter(command => matches(command, query)), [commands, query]);
+  const active = results[Math.min(activeIndex, results.length - 1)];
+
+  useEffect(() => {
+    if (active) document.getElementById(optionId(active))?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  if (!isOpen) return null;
+
+  const run = (command: Command) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (results.length === 0) return;
+    const move = (index: number) => {
+      e.preventDefault();
+      setActiveIndex((index + results.length) % results.length);
+    };
+    const current = results.indexOf(active);
+    if (e.key === 'ArrowDown') move(current + 1);
+    else if (e.key === 'ArrowUp') move(current - 1);
+    else if (e.key === 'Home' && e.ctrlKey) move(0);
+    else if (e.key === 'End' && e.ctrlKey) move(results.length - 1);
+    else if (e.key === 'Enter' && active) {
+      e.preventDefault();
+      run(active);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-start justify-center bg-black/60 backdrop-blur-sm px-4 pt-[15vh]" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="pro-glass relative w-full max-w-lg max-h-[60vh] flex flex-col rounded-[20px] animate-mac-scale-in"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="relative z-10 flex items-center gap-3 px-4 py-3 border-b border-white/5">
+          <Search size={16} className="text-gray-500 shrink-0" />
+          <input
+            data-autofocus
+            value={query}
+            onChange={e => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command or subject…"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-list"
+            aria-autocomplete="list"
+            aria-activedescendant={active ? optionId(active) : undefined}
+            className="flex-1 bg-transparent text-sm text-white placeholder-gray-500 focus:outline-none"
+          />
+          <kbd className="text-[10px] text-gray-500 border border-white/10 rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        {results.length === 0 ? (
+          <p className="relative z-10 px-4 py-6 text-center text-sm text-gray-500">No matching commands</p>
+        ) : (
+          <ul id="command-list" role="listbox" aria-label="Commands" className="relative z-10 flex-1 overflow-y-auto scrollbar-hide p-2">
+            {results.map((command, i) => {
+              const isActive = command === active;
+              const showGroup = i === 0 || results[i - 1].group !== command.group;
+              return (
+                <React.Fragment key={command.id}>
+                  {showGroup && (
+                    <li role="presentation" className="px-2 pt-2 pb-1 text-[10px] font-medium text-gray-500 uppercase tracking-wide">
+                      {command.group}
+                    </li>
+                  )}
+                  <li
+                    id={optionId(command)}
+                    role="option"
+                    aria-selected={isActive}
+                    onMouseMove={() => setActiveIndex(i)}
+                    onClick={() => run(command)}
+                    className={`flex items-center gap-3 px-3 py-2 rounded-xl cursor-pointer text-sm ${isActive ? 'bg-[#0A84FF]/20 text-white' : 'text-gray-300'}`}
+                  >
+                    {command.icon && <span className="text-[#0A84FF] shrink-0">{command.icon}</span>}
+                    <span className="flex-1 truncate">{command.label}</span>
+                    {command.hint && <span className="text-[11px] text-gray-500 shrink-0">{command.hint}</span>}
+                    {isActive && <CornerDownLeft size={12} className="text-gray-500 shrink-0" />}
+                  </li>
+                </React.Fragment>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { SubjectIssue, RepairStrategy } from '../utils/consistency';
+
+interface ConsistencyBannerProps {
+  issues: SubjectIssue[];
+  onRepair: (strategy: RepairStrategy) => void;
+  onDismiss: () => void;
+}
+
+export const ConsistencyBanner: React.FC<ConsistencyBannerProps> = ({ issues, onRepair, onDismiss }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="pro-glass relative rounded-[20px] p-5 mb-6 border border-amber-500/20 animate-mac-scale-in">
+      <div className="relative z-10 flex items-start gap-3">
+        <AlertTriangle size={18} className="text-amber-400 shrink-0 mt-0.5" />
+        <div className="flex-1 space-y-3">
+          <div>
+            <h3 className="text-sm font-semibold text-white">Attendance counts don't match your history</h3>
+            <p className="text-xs text-gray-400 mt-1">
+              {issues.length} subject{issues.length > 1 ? 's have' : ' has'} stored totals that differ from the logged records.
+            </p>
+          </div>
+
+          <ul className="space-y-1 text-xs">
+            {issues.map(issue => (
+              <li key={issue.subjectId} className="flex justify-between gap-4 text-gray-300">
+                <span className="truncate">{issue.subjectName}</span>
+                <span className="tabular-nums text-gray-400 shrink-0">
+                  {issue.stored.attended}/{issue.stored.total} stored · {issue.derived.attended}/{issue.derived.total} from history
+                  {issue.duplicateRecords > 0 && ` · ${issue.duplicateRecords} duplicate`}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => onRepair('HISTORY')}
+              className="text-xs font-semibold px-3 py-1.5 rounded-lg bg-[#0A84FF] hover:bg-[#0077ED] text-white transition-colors"
+            >
+              Recount from history
+            </button>
+            <button
+              onClick={() => onRepair('COUNTS')}
+              className="text-xs font-semibold px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/15 text-white transition-colors"
+            >
+              Keep stored counts
+            </button>
+          </div>
+        </div>
+        <button onClick={onDismiss} className="text-gray-500 hover:text-white">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
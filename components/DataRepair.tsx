@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { Wrench, Loader2 } from 'lucide-react';
+import { applyRepairs, diagnoseStoredData, RepairAction, SubjectDiagnosis } from '../utils/recovery';
+
+interface DataRepairProps {
+  onRepaired: () => void; // Usually a reload, so the app starts from the repaired data
+}
+
+const ACTION_LABELS: Record<RepairAction, string> = {
+  fix: 'Fix',
+  drop: 'Remove',
+  keep: 'Keep',
+};
+
+export const DataRepair: React.FC<DataRepairProps> = ({ onRepaired }) => {
+  const [diagnoses, setDiagnoses] = useState<SubjectDiagnosis[] | null | undefined>(undefined);
+  const [actions, setActions] = useState<Record<string, RepairAction>>({});
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    diagnoseStoredData()
+      .then(found => {
+        setDiagnoses(found);
+        setActions(Object.fromEntries((found ?? []).map(d => [d.key, d.fixable ? 'fix' : 'drop'])));
+      })
+      .catch(() => setDiagnoses(null));
+  }, []);
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      await applyRepairs(actions);
+      onRepaired();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Repair failed');
+      setIsApplying(false);
+    }
+  };
+
+  if (diagnoses === undefined) {
+    return (
+      <p className="flex items-center justify-center gap-2 text-sm text-gray-400">
+        <Loader2 size={14} className="animate-spin" /> Checking stored data…
+      </p>
+    );
+  }
+  if (diagnoses === null) {
+    return <p className="text-sm text-gray-400">The stored data can't be read at all. Download the crash report, then restart: unreadable data is set aside automatically.</p>;
+  }
+  if (diagnoses.length === 0) {
+    return <p className="text-sm text-gray-400">No problems found in your subjects. If it keeps crashing, use safe mode and share the crash report.</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-left">
+      <ul className="space-y-2 max-h-72 overflow-y-auto">
+        {diagnoses.map(d => (
+          <li key={d.key} className="rounded-xl px-3 py-2.5 bg-white/5 border border-white/10 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm font-medium text-white truncate">
+                {d.name}
+                {d.deleted && <span className="ml-1.5 text-[10px] text-gray-500">IN BIN</span>}
+              </p>
+              <div className="flex gap-1 shrink-0" role="radiogroup" aria-label={`Repair ${d.name}`}>
+                {(Object.keys(ACTION_LABELS) as RepairAction[]).map(action => (
+                  <button
+                    key={action}
+                    role="radio"
+                    aria-checked={actions[d.key] === action}
+                    disabled={action === 'fix' && !d.fixable}
+                    onClick={() => setActions(prev => ({ ...prev, [d.key]: action }))}
+                    className={`px-2 py-1 rounded-lg text-[11px] font-medium transition-colors disabled:opacity-30 ${
+                      actions[d.key] === action ? 'bg-[#0A84FF] text-white' : 'bg-white/5 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {ACTION_LABELS[action]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <ul className="text-[11px] text-amber-300/80 list-disc list-inside">
+              {d.problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          </li>
+        ))}
+      </ul>
+      <p className="text-[11px] text-gray-500">
+        Fix keeps everything readable and drops the broken parts. Removed subjects are set aside, not deleted, and still appear in crash reports.
+      </p>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <button
+        onClick={handleApply}
+        disabled={isApplying}
+        className="w-full py-2.5 rounded-xl bg-white/10 hover:bg-white/15 text-sm font-medium text-white flex items-center justify-center gap-2 disabled:opacity-50"
+      >
+        {isApplying ? <Loader2 size={14} className="animate-spin" /> : <Wrench size={14} />} Apply and restart
+      </button>
+    </div>
+  );
+};
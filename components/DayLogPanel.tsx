@@ -0,0 +1,122 @@
+import React from 'react';
+import { HolidaySet, RecordStatus, Subject } from '../types';
+import { CalendarCheck, ChevronLeft, ChevronRight, Check, X, Ban } from 'lucide-react';
+import { STATUS_LABELS } from '../constants';
+import { getClassesOnDate, logClass, logDay, unlogClass } from '../utils/dayLog';
+import { addDays, parseISODate, getTodayIn } from '../utils/dates';
+import { triggerHaptic } from '../utils/haptics';
+
+interface DayLogPanelProps {
+  subjects: Subject[];
+  holidaySets: HolidaySet[];
+  date: string;
+  onDateChange?: (date: string) => void; // Shows day navigation for back-filling
+  onUpdateSubjects: (subjects: Subject[]) => void;
+}
+
+const STATUS_BUTTONS: { status: RecordStatus; icon: React.ReactNode; active: string }[] = [
+  { status: 'PRESENT', icon: <Check size={14} />, active: 'bg-emerald-500/80 text-white' },
+  { status: 'ABSENT', icon: <X size={14} />, active: 'bg-red-500/80 text-white' },
+  { status: 'CANCELLED', icon: <Ban size={14} />, active: 'bg-white/30 text-white' },
+];
+
+export const DayLogPanel: React.FC<DayLogPanelProps> = ({ subjects, holidaySets, date, onDateChange, onUpdateSubjects }) => {
+  const today = getTodayIn();
+  const classes = getClassesOnDate(subjects, holidaySets, date);
+  const loggedCount = classes.filter(c => c.record).length;
+  const title = date === today
+    ? 'Today'
+    : parseISODate(date).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+
+  const handleMarkAll = (status: RecordStatus) => {
+    onUpdateSubjects(logDay(subjects, holidaySets, date, status));
+    triggerHaptic('success');
+  };
+
+  const handleToggle = (index: number, status: RecordStatus) => {
+    const { subject, slot, record } = classes[index];
+    onUpdateSubjects([
+      record?.status === status ? unlogClass(subject, date, slot) : logClass(subject, date, slot, status),
+    ]);
+    triggerHaptic('light');
+  };
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-4">
+      <div className="relative z-10 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+            <CalendarCheck size={18} className="text-[#0A84FF]" />
+          </div>
+          <div>
+            <h2 className="text-base font-semibold text-white">{title}</h2>
+            <p className="text-xs text-gray-400">
+              {classes.length === 0 ? 'No classes' : `${loggedCount} of ${classes.length} logged`}
+            </p>
+          </div>
+        </div>
+        {onDateChange && (
+          <div className="flex items-center gap-1">
+            <button onClick={() => onDateChange(addDays(date, -1))} aria-label="Previous day" className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10">
+              <ChevronLeft size={16} />
+            </button>
+            <button
+              onClick={() => onDateChange(addDays(date, 1))}
+              disabled={date >= today}
+              aria-label="Next day"
+              className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {classes.length > 0 && (
+        <>
+          <div className="relative z-10 flex gap-2">
+            <button onClick={() => handleMarkAll('PRESENT')} className="flex-1 text-xs font-medium px-3 py-2 rounded-lg bg-emerald-500/15 text-emerald-300 hover:bg-emerald-500/25 border border-emerald-500/20">
+              All present
+            </button>
+            <button onClick={() => handleMarkAll('ABSENT')} className="flex-1 text-xs font-medium px-3 py-2 rounded-lg bg-red-500/15 text-red-300 hover:bg-red-500/25 border border-red-500/20">
+              All absent
+            </button>
+          </div>
+
+          <ul className="relative z-10 space-y-1.5">
+            {classes.map(({ subject, slot, record, session }, index) => (
+              <li key={`${subject.id}-${slot.id}`} className="flex items-center gap-3 rounded-xl px-3 py-2 bg-white/5 border border-white/5">
+                <span className="w-11 text-xs text-gray-500 tabular-nums shrink-0">{slot.startTime ?? '—'}</span>
+                <span className="flex-1 min-w-0 text-sm text-white truncate">
+                  {subject.name}
+                  {slot.kind !== 'LECTURE' && <span className="ml-1.5 text-[10px] text-gray-500">{slot.kind}</span>}
+                  {session && (
+                    <span className="ml-1.5 text-[10px] text-[#0A84FF]" title={session.note}>
+                      {session.movedFrom ? 'MOVED' : 'EXTRA'}
+                    </span>
+                  )}
+                </span>
+                <div className="flex gap-1 shrink-0">
+                  {STATUS_BUTTONS.map(({ status, icon, active }) => (
+                    <button
+                      key={status}
+                      title={STATUS_LABELS[status]}
+                      aria-label={`${subject.name}${slot.startTime ? ` at ${slot.startTime}` : ''}: ${STATUS_LABELS[status]}`}
+                      aria-pressed={record?.status === status}
+                      onClick={() => handleToggle(index, status)}
+                      className={`w-7 h-7 rounded-lg flex items-center justify-center transition-colors ${
+                        record?.status === status ? active : 'bg-white/5 text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {icon}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+};
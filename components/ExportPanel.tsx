@@ -0,0 +1,93 @@
+import React from 'react';
+import { AppSettings, HolidaySet, Subject } from '../types';
+import { Share, CalendarPlus, FileSpreadsheet, Printer, FileText } from 'lucide-react';
+import { buildHistoryCSV, buildReportHTML, buildScheduleICS } from '../utils/exporters';
+import { downloadFile, printHTML } from '../utils/download';
+import { getTodayIn } from '../utils/dates';
+import { triggerHaptic } from '../utils/haptics';
+
+interface ExportPanelProps {
+  subjects: Subject[];
+  settings: AppSettings;
+  holidaySets: HolidaySet[];
+}
+
+export interface ExportAction {
+  icon: React.ReactNode;
+  label: string;
+  hint: string;
+  run: () => void;
+}
+
+// Shared with the command palette so both offer the same downloads
+export const getExportActions = (subjects: Subject[], settings: AppSettings, holidaySets: HolidaySet[], today: string): ExportAction[] => [
+  {
+    icon: <CalendarPlus size={16} />,
+    label: 'Class schedule',
+    hint: 'Upcoming classes as .ics',
+    run: () => downloadFile(`smartskip-schedule-${today}.ics`, buildScheduleICS(subjects, holidaySets, today), 'text/calendar'),
+  },
+  {
+    icon: <FileSpreadsheet size={16} />,
+    label: 'Attendance history',
+    hint: 'Every logged record as .csv',
+    run: () => downloadFile(`smartskip-history-${today}.csv`, buildHistoryCSV(subjects), 'text/csv'),
+  },
+  {
+    icon: <FileText size={16} />,
+    label: 'Semester report',
+    hint: 'Standalone .html file',
+    run: () => downloadFile(`smartskip-report-${today}.html`, buildReportHTML(subjects, settings, holidaySets, today), 'text/html'),
+  },
+  {
+    icon: <Printer size={16} />,
+    label: 'Print report',
+    hint: 'For your faculty advisor',
+    run: () => {
+      if (!printHTML(buildReportHTML(subjects, settings, holidaySets, today))) {
+        alert('Allow pop-ups to print the report.');
+      }
+    },
+  },
+];
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ subjects, settings, holidaySets }) => {
+  const today = getTodayIn();
+  const disabled = subjects.length === 0;
+
+  const exports = getExportActions(subjects, settings, holidaySets, today);
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-4 mt-6">
+      <div className="relative z-10 flex items-center gap-3">
+        <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+          <Share size={18} className="text-[#0A84FF]" />
+        </div>
+        <div>
+          <h2 className="text-base font-semibold text-white">Export</h2>
+          <p className="text-xs text-gray-400">Take your attendance data elsewhere</p>
+        </div>
+      </div>
+
+      <div className="relative z-10 grid grid-cols-2 gap-2">
+        {exports.map(item => (
+          <button
+            key={item.label}
+            disabled={disabled}
+            onClick={() => {
+              triggerHaptic('light');
+              item.run();
+            }}
+            className="flex items-start gap-2.5 text-left p-3 rounded-xl bg-white/5 border border-white/5 hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-white/5 transition-colors"
+          >
+            <span className="text-[#0A84FF] mt-0.5">{item.icon}</span>
+            <span>
+              <span className="block text-sm font-medium text-white">{item.label}</span>
+              <span className="block text-[11px] text-gray-500">{item.hint}</span>
+            </span>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { ExtraSession, SlotKind, Subject } from '../types';
+import { CalendarPlus, ArrowRight, Trash2 } from 'lucide-react';
+import { addSession, createMovedSession, createSession, getSessionsOnDate, getSlotsOnDate, removeSession } from '../utils/sessions';
+import { getSubjectToday, parseISODate } from '../utils/dates';
+import { triggerHaptic } from '../utils/haptics';
+
+interface ExtraSessionsPanelProps {
+  subjects: Subject[];
+  onUpdateSubjects: (subjects: Subject[], label: string) => void;
+}
+
+type Mode = 'extra' | 'move';
+
+const KIND_LABELS: Record<SlotKind, string> = {
+  LECTURE: 'Lecture',
+  LAB: 'Lab',
+  TUTORIAL: 'Tutorial',
+};
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-[#0A84FF]/60';
+
+const formatDate = (date: string) =>
+  parseISODate(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+export const ExtraSessionsPanel: React.FC<ExtraSessionsPanelProps> = ({ subjects, onUpdateSubjects }) => {
+  const [mode, setMode] = useState<Mode>('extra');
+  const [subjectId, setSubjectId] = useState('');
+  const [date, setDate] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [slotId, setSlotId] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [kind, setKind] = useState<SlotKind>('LECTURE');
+  const [note, setNote] = useState('');
+
+  const subject = subjects.find(s => s.id === subjectId) ?? subjects[0];
+
+  // Weekly classes on the "from" date that can still be moved
+  const movable = subject && fromDate
+    ? getSlotsOnDate(subject, fromDate).filter(slot => !getSessionsOnDate(subject, fromDate).some(s => s.id === slot.id))
+    : [];
+  const slot = movable.find(s => s.id === slotId) ?? movable[0];
+
+  const outOfRange = (d: string) => Boolean(subject && d && (d < subject.startDate || d > subject.endDate));
+  const error = !subject ? null
+    : outOfRange(date) || (mode === 'move' && outOfRange(fromDate)) ? `${subject.name} runs ${formatDate(subject.startDate)} – ${formatDate(subject.endDate)}`
+    : mode === 'move' && fromDate && movable.length === 0 ? `${subject.name} has no class on ${formatDate(fromDate)}`
+    : mode === 'move' && fromDate === date ? 'Pick a different day to move it to'
+    : null;
+  const canSave = Boolean(subject && date && !error && (mode === 'extra' || slot));
+
+  const resetForm = () => {
+    setDate('');
+    setFromDate('');
+    setSlotId('');
+    setStartTime('');
+    setNote('');
+  };
+
+  const handleSave = () => {
+    if (!canSave || !subject) return;
+    if (mode === 'extra') {
+      const session = createSession(date, startTime || undefined, kind, note.trim() || undefined);
+      onUpdateSubjects([addSession(subject, session)], `Add ${subject.name} class`);
+    } else {
+      const session = createMovedSession(slot, fromDate, date, startTime || slot.startTime);
+      onUpdateSubjects([addSession(subject, session)], `Move ${subject.name} class`);
+    }
+    resetForm();
+    triggerHaptic('success');
+  };
+
+  const handleRemove = (owner: Subject, session: ExtraSession) => {
+    onUpdateSubjects([removeSession(owner, session.id)], `Remove ${owner.name} class`);
+    triggerHaptic('light');
+  };
+
+  // Sessions still to come, soonest first
+  const upcoming = subjects
+    .flatMap(owner => (owner.sessions ?? [])
+      .filter(session => session.date >= getSubjectToday(owner))
+      .map(session => ({ owner, session })))
+    .sort((a, b) => a.session.date.localeCompare(b.session.date) || (a.session.startTime ?? '').localeCompare(b.session.startTime ?? ''));
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-4 mt-6">
+      <div className="relative z-10 flex items-center gap-3">
+        <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+          <CalendarPlus size={18} className="text-[#0A84FF]" />
+        </div>
+        <div>
+          <h2 className="text-base font-semibold text-white">Extra Classes</h2>
+          <p className="text-xs text-gray-400">Make-up sessions and rescheduled lectures</p>
+        </div>
+      </div>
+
+      {subjects.length === 0 ? (
+        <p className="relative z-10 text-xs text-gray-500">Add a subject first.</p>
+      ) : (
+        <div className="relative z-10 space-y-3">
+          <div className="grid grid-cols-2 gap-1 p-1 rounded-xl bg-white/5 border border-white/10" role="radiogroup" aria-label="Kind of change">
+            {(['extra', 'move'] as Mode[]).map(option => (
+              <button
+                key={option}
+                role="radio"
+                aria-checked={mode === option}
+                onClick={() => setMode(option)}
+                className={`py-1.5 rounded-lg text-xs font-medium transition-colors ${mode === option ? 'bg-white/15 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {option === 'extra' ? 'Extra class' : 'Move a class'}
+              </button>
+            ))}
+          </div>
+
+          <select value={subject?.id} onChange={e => setSubjectId(e.target.value)} aria-label="Subject" className={inputClass}>
+            {subjects.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+
+          {mode === 'move' && (
+            <div className="grid grid-cols-2 gap-2">
+              <label className="space-y-1">
+                <span className="text-[11px] text-gray-500">Was on</span>
+                <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className={inputClass} />
+              </label>
+              <label className="space-y-1">
+                <span className="text-[11px] text-gray-500">Class</span>
+                <select value={slot?.id ?? ''} onChange={e => setSlotId(e.target.value)} disabled={movable.length === 0} className={inputClass}>
+                  {movable.map(s => (
+                    <option key={s.id} value={s.id}>{s.startTime ?? 'Untimed'} · {KIND_LABELS[s.kind]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1">
+              <span className="text-[11px] text-gray-500">{mode === 'move' ? 'Moved to' : 'Date'}</span>
+              <input type="date" value={date} onChange={e => setDate(e.target.value)} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-[11px] text-gray-500">Starts</span>
+              <input
+                type="time"
+                value={startTime}
+                onChange={e => setStartTime(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          {mode === 'extra' && (
+            <div className="grid grid-cols-2 gap-2">
+              <select value={kind} onChange={e => setKind(e.target.value as SlotKind)} aria-label="Class type" className={inputClass}>
+                {(Object.keys(KIND_LABELS) as SlotKind[]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+              </select>
+              <input value={note} onChange={e => setNote(e.target.value)} placeholder="Note, e.g. Make-up lab" className={inputClass} />
+            </div>
+          )}
+
+          {error && <p className="text-[11px] text-amber-400/80">{error}</p>}
+
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="w-full py-2.5 rounded-xl bg-[#0A84FF] hover:bg-[#0071e3] text-sm font-medium text-white disabled:opacity-40 disabled:hover:bg-[#0A84FF]"
+          >
+            {mode === 'extra' ? 'Add class' : 'Move class'}
+          </button>
+          {mode === 'move' && (
+            <p className="text-[11px] text-gray-500">Leave the time empty to keep the usual start time.</p>
+          )}
+        </div>
+      )}
+
+      {upcoming.length > 0 && (
+        <div className="relative z-10 space-y-2">
+          <p className="text-xs font-medium text-gray-400 uppercase tracking-wide">Upcoming</p>
+          <ul className="space-y-1.5">
+            {upcoming.map(({ owner, session }) => (
+              <li key={session.id} className="flex items-center gap-3 rounded-xl px-3 py-2 bg-white/5 border border-white/5">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">
+                    {owner.name}
+                    {session.kind !== 'LECTURE' && <span className="ml-1.5 text-[10px] text-gray-500">{session.kind}</span>}
+                  </p>
+                  <p className="text-[11px] text-gray-400 truncate">
+                    {session.movedFrom && <>{formatDate(session.movedFrom.date)} <ArrowRight size={10} className="inline" /> </>}
+                    {formatDate(session.date)}{session.startTime && ` · ${session.startTime}`}{session.note && ` · ${session.note}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRemove(owner, session)}
+                  title={session.movedFrom ? 'Undo the move' : 'Remove'}
+                  aria-label={session.movedFrom ? `Undo moving ${owner.name}` : `Remove ${owner.name} class`}
+                  className="p-1.5 rounded-lg text-gray-500 hover:text-red-400 hover:bg-white/10 shrink-0"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
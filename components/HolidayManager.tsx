@@ -0,0 +1,191 @@
+import React, { useRef, useState } from 'react';
+import { HolidaySet, Subject } from '../types';
+import { CalendarOff, Plus, Trash2, Upload, Check } from 'lucide-react';
+import { createHolidayRange, createHolidaySet, getSubjectHolidaySets, holidaySetFromICS, sortRanges } from '../utils/holidays';
+import { triggerHaptic } from '../utils/haptics';
+
+interface HolidayManagerProps {
+  holidaySets: HolidaySet[];
+  subjects: Subject[];
+  onChange: (sets: HolidaySet[]) => void;
+  onToggleSubject: (subjectId: string, setId: string) => void;
+}
+
+const inputClass = 'bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-[#0A84FF]/60';
+
+export const HolidayManager: React.FC<HolidayManagerProps> = ({ holidaySets, subjects, onChange, onToggleSubject }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(holidaySets[0]?.id ?? null);
+  const [newSetName, setNewSetName] = useState('');
+  const [draft, setDraft] = useState({ name: '', start: '', end: '' });
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = holidaySets.find(set => set.id === selectedId) ?? holidaySets[0];
+
+  const updateSet = (updated: HolidaySet) => {
+    onChange(holidaySets.map(set => set.id === updated.id ? { ...updated, updatedAt: Date.now() } : set));
+  };
+
+  const handleCreateSet = () => {
+    if (!newSetName.trim()) return;
+    const set = createHolidaySet(newSetName.trim());
+    onChange([...holidaySets, set]);
+    setSelectedId(set.id);
+    setNewSetName('');
+    triggerHaptic('light');
+  };
+
+  const handleDeleteSet = (id: string) => {
+    if (!confirm('Delete this holiday set? Subjects using it will no longer skip these dates.')) return;
+    onChange(holidaySets.filter(set => set.id !== id));
+    setSelectedId(null);
+  };
+
+  const handleAddRange = () => {
+    if (!selected || !draft.name.trim() || !draft.start) return;
+    const range = createHolidayRange(draft.name.trim(), draft.start, draft.end || draft.start);
+    updateSet({ ...selected, ranges: sortRanges([...selected.ranges, range]) });
+    setDraft({ name: '', start: '', end: '' });
+    triggerHaptic('light');
+  };
+
+  const handleImportICS = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const set = holidaySetFromICS(file.name.replace(/\.ics$/i, ''), String(reader.result));
+        onChange([...holidaySets, set]);
+        setSelectedId(set.id);
+        setImportError(null);
+        triggerHaptic('success');
+      } catch (err) {
+        setImportError(err instanceof Error ? err.message : 'Could not read calendar file');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-5 mt-6">
+      <div className="relative z-10 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+            <CalendarOff size={18} className="text-[#0A84FF]" />
+          </div>
+          <div>
+            <h2 className="text-base font-semibold text-white">Holiday Calendars</h2>
+            <p className="text-xs text-gray-400">Days on which no classes are held</p>
+          </div>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1.5 text-xs font-medium text-gray-300 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg px-3 py-1.5 transition-colors"
+        >
+          <Upload size={14} /> Import .ics
+        </button>
+        <input ref={fileInputRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={handleImportICS} />
+      </div>
+
+      {importError && <p className="relative z-10 text-xs text-red-400">{importError}</p>}
+
+      {/* Set picker */}
+      <div className="relative z-10 flex flex-wrap gap-2">
+        {holidaySets.map(set => (
+          <button
+            key={set.id}
+            onClick={() => setSelectedId(set.id)}
+            className={`text-xs px-3 py-1.5 rounded-full border transition-colors ${
+              selected?.id === set.id ? 'bg-[#0A84FF] border-[#0A84FF] text-white' : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+            }`}
+          >
+            {set.name}
+          </button>
+        ))}
+        <div className="flex items-center gap-1">
+          <input
+            value={newSetName}
+            onChange={e => setNewSetName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleCreateSet()}
+            placeholder="New set"
+            className={`${inputClass} py-1 w-28`}
+          />
+          <button onClick={handleCreateSet} className="p-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-gray-300">
+            <Plus size={14} />
+          </button>
+        </div>
+      </div>
+
+      {selected && (
+        <div className="relative z-10 space-y-4">
+          <div className="flex items-center gap-2">
+            <input
+              value={selected.name}
+              onChange={e => updateSet({ ...selected, name: e.target.value })}
+              className={`${inputClass} flex-1`}
+            />
+            <button onClick={() => handleDeleteSet(selected.id)} className="p-2 rounded-lg text-red-400 hover:bg-red-500/10">
+              <Trash2 size={16} />
+            </button>
+          </div>
+
+          {/* Ranges */}
+          <ul className="space-y-1.5 max-h-64 overflow-y-auto scrollbar-hide">
+            {selected.ranges.map(range => (
+              <li key={range.id} className="flex items-center justify-between bg-white/5 rounded-lg px-3 py-2 text-sm">
+                <span className="text-white truncate">{range.name}</span>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className="text-xs text-gray-400 tabular-nums">
+                    {range.start}{range.end !== range.start && ` → ${range.end}`}
+                  </span>
+                  <button
+                    onClick={() => updateSet({ ...selected, ranges: selected.ranges.filter(r => r.id !== range.id) })}
+                    className="text-gray-500 hover:text-red-400"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            ))}
+            {selected.ranges.length === 0 && <li className="text-xs text-gray-500">No holidays in this set yet.</li>}
+          </ul>
+
+          <div className="grid grid-cols-[1fr_auto_auto_auto] gap-2">
+            <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Holiday or break" className={inputClass} />
+            <input type="date" value={draft.start} onChange={e => setDraft({ ...draft, start: e.target.value })} className={inputClass} />
+            <input type="date" value={draft.end} min={draft.start} onChange={e => setDraft({ ...draft, end: e.target.value })} className={inputClass} />
+            <button onClick={handleAddRange} className="px-3 rounded-lg bg-[#0A84FF] hover:bg-[#0077ED] text-white">
+              <Plus size={16} />
+            </button>
+          </div>
+
+          {/* Subject opt-in */}
+          {subjects.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-[11px] uppercase tracking-widest text-gray-500 font-semibold">Applies to</p>
+              <div className="flex flex-wrap gap-2">
+                {subjects.map(subject => {
+                  const active = getSubjectHolidaySets(subject, holidaySets).some(set => set.id === selected.id);
+                  return (
+                    <button
+                      key={subject.id}
+                      onClick={() => onToggleSubject(subject.id, selected.id)}
+                      className={`flex items-center gap-1 text-xs px-3 py-1.5 rounded-full border transition-colors ${
+                        active ? 'bg-white/15 border-white/20 text-white' : 'bg-transparent border-white/10 text-gray-500'
+                      }`}
+                    >
+                      {active && <Check size={12} />} {subject.name}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
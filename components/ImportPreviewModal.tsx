@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, GitMerge, ChevronDown, ChevronRight } from 'lucide-react';
+import { ImportAction, ImportMatch, resolveByNewest } from '../utils/merge';
+import { STATUS_LABELS } from '../constants';
+import { useDialogFocus } from '../utils/focus';
+
+interface ImportPreviewModalProps {
+  plan: ImportMatch[] | null;
+  skipped?: number; // Unreadable subjects in the file, already left out
+  onClose: () => void;
+  onApply: (plan: ImportMatch[]) => void;
+}
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  MERGE: 'Merge history',
+  REPLACE: 'Replace',
+  ADD: 'Add as new',
+  SKIP: 'Skip',
+};
+
+const formatTimestamp = (ts: number) => new Date(ts).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({ plan, skipped = 0, onClose, onApply }) => {
+  const [draft, setDraft] = useState<ImportMatch[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setDraft(plan ?? []);
+    setExpanded(null);
+  }, [plan]);
+
+  useDialogFocus(dialogRef, Boolean(plan), onClose);
+
+  if (!plan) return null;
+
+  const updateMatch = (index: number, update: Partial<ImportMatch>) => {
+    setDraft(prev => prev.map((m, i) => i === index ? { ...m, ...update } : m));
+  };
+
+  const totalConflicts = draft.reduce((sum, m) => sum + (m.action === 'MERGE' ? m.conflicts.length : 0), 0);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm px-4" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-preview-title"
+        className="pro-glass relative w-full max-w-lg max-h-[85vh] flex flex-col rounded-[24px] animate-mac-scale-in"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="relative z-10 flex items-center justify-between px-6 pt-6 pb-4 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <GitMerge size={18} className="text-[#0A84FF]" />
+            <div>
+              <h2 id="import-preview-title" className="text-base font-semibold text-white">Review Import</h2>
+              <p className="text-xs text-gray-400">
+                {draft.length} subject{draft.length !== 1 && 's'} · {totalConflicts} conflicting record{totalConflicts !== 1 && 's'}
+                {skipped > 0 && ` · ${skipped} unreadable subject${skipped !== 1 ? 's' : ''} left out`}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} aria-label="Close" className="text-gray-500 hover:text-white"><X size={18} /></button>
+        </div>
+
+        <div className="relative z-10 flex-1 overflow-y-auto scrollbar-hide px-6 py-4 space-y-3">
+          {draft.map((match, index) => {
+            const key = `${match.incoming.id}-${index}`;
+            const isOpen = expanded === key;
+            const actions: ImportAction[] = match.existing ? ['MERGE', 'REPLACE', 'ADD', 'SKIP'] : ['ADD', 'SKIP'];
+
+            return (
+              <div key={key} className="bg-white/5 border border-white/5 rounded-xl p-3 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-white truncate">{match.incoming.name}</p>
+                    <p className="text-[11px] text-gray-500">
+                      {match.existing
+                        ? `Matches "${match.existing.name}" by ${match.matchedBy === 'ID' ? 'id' : 'name'} · ${match.newRecords} new record${match.newRecords !== 1 ? 's' : ''}`
+                        : `New subject · ${match.newRecords} record${match.newRecords !== 1 ? 's' : ''}`}
+                    </p>
+                  </div>
+                  <select
+                    value={match.action}
+                    onChange={e => updateMatch(index, { action: e.target.value as ImportAction })}
+                    className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none"
+                  >
+                    {actions.map(action => <option key={action} value={action}>{ACTION_LABELS[action]}</option>)}
+                  </select>
+                </div>
+
+                {match.action === 'MERGE' && match.conflicts.length > 0 && (
+                  <div>
+                    <button
+                      onClick={() => setExpanded(isOpen ? null : key)}
+                      className="flex items-center gap-1 text-[11px] text-amber-400"
+                    >
+                      {isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                      {match.conflicts.length} same-date conflict{match.conflicts.length !== 1 && 's'}
+                    </button>
+                    {isOpen && (
+                      <ul className="mt-2 space-y-1.5">
+                        {match.conflicts.map((conflict, ci) => (
+                          <li key={conflict.key} className="grid grid-cols-[auto_1fr_1fr] items-center gap-2 text-[11px]">
+                            <span className="text-gray-400 tabular-nums">{conflict.current.date}</span>
+                            {(['CURRENT', 'INCOMING'] as const).map(side => {
+                              const record = side === 'CURRENT' ? conflict.current : conflict.incoming;
+                              return (
+                                <button
+                                  key={side}
+                                  onClick={() => updateMatch(index, {
+                                    conflicts: match.conflicts.map((c, i) => i === ci ? { ...c, keep: side } : c),
+                                  })}
+                                  className={`rounded-md px-2 py-1 text-left border transition-colors ${
+                                    conflict.keep === side ? 'border-[#0A84FF] bg-[#0A84FF]/15 text-white' : 'border-white/10 text-gray-400'
+                                  }`}
+                                >
+                                  <span className="block font-medium">{side === 'CURRENT' ? 'Current' : 'Incoming'}: {STATUS_LABELS[record.status]}</span>
+                                  <span className="block text-[10px] opacity-70">{formatTimestamp(record.timestamp)}</span>
+                                </button>
+                              );
+                            })}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="relative z-10 flex gap-2 px-6 py-4 border-t border-white/5">
+          {totalConflicts > 0 && (
+            <button
+              onClick={() => setDraft(resolveByNewest(draft))}
+              className="px-4 py-2.5 rounded-xl bg-white/10 hover:bg-white/15 text-white text-sm font-medium transition-colors"
+            >
+              Newest wins
+            </button>
+          )}
+          <button
+            onClick={() => onApply(draft)}
+            className="flex-1 py-2.5 rounded-xl bg-[#0A84FF] hover:bg-[#0077ED] text-white text-sm font-semibold transition-colors"
+          >
+            Apply Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
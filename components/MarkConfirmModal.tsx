@@ -0,0 +1,70 @@
+import React, { useRef } from 'react';
+import { RecordStatus } from '../types';
+import { Link2 } from 'lucide-react';
+import { STATUS_LABELS } from '../constants';
+import { parseISODate } from '../utils/dates';
+import { useDialogFocus } from '../utils/focus';
+
+export interface MarkRequest {
+  subjectName?: string; // Unset when the link names an unknown subject
+  status: RecordStatus;
+  date: string;
+  problem: string | null; // Why it can't be applied, if it can't
+}
+
+interface MarkConfirmModalProps {
+  request: MarkRequest | null;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+// Links can come from anywhere, so a mark is never applied without this
+export const MarkConfirmModal: React.FC<MarkConfirmModalProps> = ({ request, onConfirm, onClose }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, Boolean(request), onClose);
+
+  if (!request) return null;
+
+  const day = parseISODate(request.date).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm px-4" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="mark-confirm-title"
+        aria-describedby="mark-confirm-detail"
+        className="pro-glass relative w-full max-w-sm rounded-[24px] p-6 space-y-4 animate-mac-scale-in"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="relative z-10 flex items-center gap-3">
+          <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+            <Link2 size={18} className="text-[#0A84FF]" />
+          </div>
+          <h2 id="mark-confirm-title" className="text-base font-semibold text-white">
+            {request.subjectName ? `Mark ${request.subjectName}?` : 'Mark attendance?'}
+          </h2>
+        </div>
+
+        <p id="mark-confirm-detail" className="relative z-10 text-sm text-gray-300">
+          {request.problem ?? <>Log <span className="font-semibold text-white">{STATUS_LABELS[request.status]}</span> for {day}.</>}
+        </p>
+
+        <div className="relative z-10 grid grid-cols-2 gap-2">
+          <button onClick={onClose} className="py-2.5 rounded-xl bg-white/5 border border-white/10 text-sm text-gray-200 hover:bg-white/10">
+            {request.problem ? 'Close' : 'Cancel'}
+          </button>
+          <button
+            data-autofocus
+            onClick={onConfirm}
+            disabled={Boolean(request.problem)}
+            className="py-2.5 rounded-xl bg-[#0A84FF] hover:bg-[#0071e3] text-sm font-medium text-white disabled:opacity-40 disabled:hover:bg-[#0A84FF]"
+          >
+            Mark {STATUS_LABELS[request.status]}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
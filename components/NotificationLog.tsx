@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollText, RefreshCw } from 'lucide-react';
+import { clearNotificationLog, getNotificationLog, NotificationLogEntry } from '../utils/notificationLog';
+import { ReminderKind } from '../utils/reminders';
+
+const KIND_LABELS: Record<ReminderKind, string> = {
+  daily: 'Daily',
+  class: 'Class',
+  risk: 'Risk',
+  digest: 'Digest',
+};
+
+const formatShownAt = (ms: number) =>
+  new Date(ms).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const NotificationLog: React.FC = () => {
+  const [entries, setEntries] = useState<NotificationLogEntry[]>([]);
+
+  const refresh = () => {
+    getNotificationLog().then(setEntries);
+  };
+
+  useEffect(refresh, []);
+
+  const handleClear = async () => {
+    await clearNotificationLog();
+    refresh();
+  };
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-4 mt-6">
+      <div className="relative z-10 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+            <ScrollText size={18} className="text-[#0A84FF]" />
+          </div>
+          <div>
+            <h2 className="text-base font-semibold text-white">Notification Log</h2>
+            <p className="text-xs text-gray-400">What fired and when</p>
+          </div>
+        </div>
+        <button onClick={refresh} title="Refresh" className="p-1.5 rounded-lg text-gray-500 hover:text-white hover:bg-white/10">
+          <RefreshCw size={14} />
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="relative z-10 text-xs text-gray-500">No notifications yet.</p>
+      ) : (
+        <>
+          <ul className="relative z-10 space-y-1.5 max-h-72 overflow-y-auto">
+            {entries.map(entry => (
+              <li key={`${entry.id}-${entry.shownAt}`} className="rounded-xl px-3 py-2 bg-white/5 border border-white/5">
+                <div className="flex items-center justify-between gap-3">
+                  <p className="text-sm text-white truncate">{entry.title}</p>
+                  <span className="text-[10px] px-2 py-0.5 rounded-full bg-white/10 text-gray-300 shrink-0">
+                    {KIND_LABELS[entry.kind] ?? 'Reminder'}
+                  </span>
+                </div>
+                <p className="text-[11px] text-gray-400 whitespace-pre-line">{entry.body}</p>
+                <p className="text-[10px] text-gray-500 tabular-nums">
+                  {formatShownAt(entry.shownAt)}
+                  {entry.shownAt - entry.fireAt > 60 * 1000 && ` · due ${formatShownAt(entry.fireAt)}`}
+                </p>
+              </li>
+            ))}
+          </ul>
+          <button onClick={handleClear} className="relative z-10 text-xs text-gray-500 hover:text-red-400">Clear log</button>
+        </>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,133 @@
+import React from 'react';
+import { AppSettings, Subject } from '../types';
+import { BellRing } from 'lucide-react';
+import { CLASS_REMINDER_LEAD_MINUTES } from '../constants';
+
+interface ReminderRulesSettingsProps {
+  settings: AppSettings;
+  subjects: Subject[];
+  onUpdate: (settings: AppSettings) => void;
+  onUpdateSubject: (subject: Subject) => void;
+}
+
+const LEAD_OPTIONS = [0, 5, 10, 15, 30, 60];
+const DEFAULT_OPTION = 'default';
+const MUTED_OPTION = 'off';
+
+const inputClass = 'bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-[#0A84FF]/60 disabled:opacity-50';
+
+const formatLead = (minutes: number) => (minutes === 0 ? 'At start' : `${minutes} min`);
+
+const Switch: React.FC<{ checked: boolean; onChange: (checked: boolean) => void; label: string }> = ({ checked, onChange, label }) => (
+  <label className="flex items-center justify-between gap-3 text-sm cursor-pointer">
+    <span className="text-gray-300">{label}</span>
+    <input type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} className="accent-[#0A84FF] w-4 h-4" />
+  </label>
+);
+
+export const ReminderRulesSettings: React.FC<ReminderRulesSettingsProps> = ({ settings, subjects, onUpdate, onUpdateSubject }) => {
+  const defaultLead = settings.classReminderLead ?? CLASS_REMINDER_LEAD_MINUTES;
+  const update = (changes: Partial<AppSettings>) => onUpdate({ ...settings, ...changes });
+
+  const setSubjectLead = (subject: Subject, value: string) => {
+    const reminderLeadMinutes = value === DEFAULT_OPTION ? undefined : value === MUTED_OPTION ? null : Number(value);
+    onUpdateSubject({ ...subject, reminderLeadMinutes });
+  };
+
+  const subjectValue = (subject: Subject) => {
+    if (subject.reminderLeadMinutes === null) return MUTED_OPTION;
+    return subject.reminderLeadMinutes === undefined ? DEFAULT_OPTION : String(subject.reminderLeadMinutes);
+  };
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-5 mt-6">
+      <div className="relative z-10 flex items-center gap-3">
+        <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+          <BellRing size={18} className="text-[#0A84FF]" />
+        </div>
+        <div>
+          <h2 className="text-base font-semibold text-white">Reminder Rules</h2>
+          <p className="text-xs text-gray-400">When class reminders and alerts are sent</p>
+        </div>
+      </div>
+
+      {!settings.notificationsEnabled && (
+        <p className="relative z-10 text-[11px] text-amber-400/80">Notifications are off, so none of these will fire.</p>
+      )}
+
+      <div className="relative z-10 space-y-3">
+        <label className="flex items-center justify-between gap-3 text-sm">
+          <span className="text-gray-300">Class reminder lead time</span>
+          <select
+            value={defaultLead}
+            disabled={!settings.classReminders}
+            onChange={e => update({ classReminderLead: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {LEAD_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{formatLead(minutes)}</option>)}
+          </select>
+        </label>
+
+        <Switch label="Quiet hours" checked={Boolean(settings.quietHours)} onChange={quietHours => update({ quietHours })} />
+        {settings.quietHours && (
+          <div className="flex items-center justify-end gap-2 text-sm text-gray-500">
+            <input
+              type="time"
+              value={settings.quietHoursStart ?? ''}
+              onChange={e => update({ quietHoursStart: e.target.value })}
+              className={inputClass}
+            />
+            to
+            <input
+              type="time"
+              value={settings.quietHoursEnd ?? ''}
+              onChange={e => update({ quietHoursEnd: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        <Switch label="Warn when skipping today is risky" checked={Boolean(settings.riskAlerts)} onChange={riskAlerts => update({ riskAlerts })} />
+
+        <Switch label="Nightly digest" checked={Boolean(settings.nightlyDigest)} onChange={nightlyDigest => update({ nightlyDigest })} />
+        {settings.nightlyDigest && (
+          <div className="flex items-center justify-end">
+            <input
+              type="time"
+              value={settings.nightlyDigestTime ?? ''}
+              onChange={e => update({ nightlyDigestTime: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+      <p className="relative z-10 text-[11px] text-gray-500">
+        Quiet hours drop class reminders and risk alerts; the daily check and digest wait until they end.
+        The digest lists subjects that need more classes to recover after today.
+      </p>
+
+      {subjects.length > 0 && (
+        <div className="relative z-10 space-y-2">
+          <p className="text-xs font-medium text-gray-400 uppercase tracking-wide">Per-subject lead times</p>
+          <ul className="space-y-1.5">
+            {subjects.map(subject => (
+              <li key={subject.id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-white truncate">{subject.name}</span>
+                <select
+                  value={subjectValue(subject)}
+                  disabled={!settings.classReminders}
+                  onChange={e => setSubjectLead(subject, e.target.value)}
+                  className={`${inputClass} shrink-0`}
+                >
+                  <option value={DEFAULT_OPTION}>Default ({formatLead(defaultLead)})</option>
+                  {LEAD_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{formatLead(minutes)}</option>)}
+                  <option value={MUTED_OPTION}>Off</option>
+                </select>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
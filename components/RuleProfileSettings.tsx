@@ -0,0 +1,149 @@
+import React from 'react';
+import { AppSettings, RuleProfile, Subject } from '../types';
+import { Scale, RotateCcw } from 'lucide-react';
+import { CUSTOM_PROFILE_ID, RULE_PRESETS } from '../constants';
+import { getActiveProfile, getSubjectTarget, isLabSubject } from '../utils/rules';
+
+interface RuleProfileSettingsProps {
+  settings: AppSettings;
+  subjects: Subject[];
+  onUpdate: (settings: AppSettings) => void;
+  onUpdateSubject: (subject: Subject) => void;
+}
+
+const inputClass = 'w-16 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white text-right tabular-nums focus:outline-none focus:border-[#0A84FF]/60';
+
+// Percent inputs edit 0.0-1.0 values as whole numbers
+const toPercent = (value: number) => Math.round(value * 100);
+const fromPercent = (value: string) => Math.min(100, Math.max(0, Number(value))) / 100;
+
+export const RuleProfileSettings: React.FC<RuleProfileSettingsProps> = ({ settings, subjects, onUpdate, onUpdateSubject }) => {
+  const profile = getActiveProfile(settings);
+  const isCustom = profile.id === CUSTOM_PROFILE_ID;
+
+  const updateCustom = (changes: Partial<RuleProfile>) => {
+    const next = { ...profile, ...changes };
+    onUpdate({ ...settings, targetPercentage: next.theoryTarget, customProfile: next });
+  };
+
+  const setOverride = (subject: Subject, value: string) => {
+    onUpdateSubject({ ...subject, targetPercentage: value === '' ? undefined : fromPercent(value) });
+  };
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-5 mt-6">
+      <div className="relative z-10 flex items-center gap-3">
+        <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+          <Scale size={18} className="text-[#0A84FF]" />
+        </div>
+        <div>
+          <h2 className="text-base font-semibold text-white">Rule Profile</h2>
+          <p className="text-xs text-gray-400">Targets and when a subject counts as in danger</p>
+        </div>
+      </div>
+
+      <div className="relative z-10 flex flex-wrap gap-1.5">
+        {[...RULE_PRESETS, { id: CUSTOM_PROFILE_ID, name: 'Custom' }].map(option => (
+          <button
+            key={option.id}
+            onClick={() => onUpdate({ ...settings, ruleProfileId: option.id })}
+            className={`text-xs px-3 py-1.5 rounded-lg border transition-colors ${
+              profile.id === option.id
+                ? 'bg-[#0A84FF] border-[#0A84FF] text-white'
+                : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'
+            }`}
+          >
+            {option.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative z-10 grid grid-cols-2 gap-3 text-sm">
+        {([
+          ['Theory target', 'theoryTarget'],
+          ['Lab target', 'labTarget'],
+          ['Danger margin', 'dangerMargin'],
+        ] as const).map(([label, key]) => (
+          <label key={key} className="flex items-center justify-between gap-2">
+            <span className="text-gray-300">{label}</span>
+            <span className="flex items-center gap-1 text-gray-500">
+              <input
+                type="number"
+                min={0}
+                max={100}
+                disabled={!isCustom}
+                value={toPercent(profile[key])}
+                onChange={e => updateCustom({ [key]: fromPercent(e.target.value) })}
+                className={`${inputClass} disabled:opacity-50`}
+              />
+              %
+            </span>
+          </label>
+        ))}
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-gray-300">Danger at bunks</span>
+          <input
+            type="number"
+            min={0}
+            disabled={!isCustom}
+            value={profile.dangerBunks}
+            onChange={e => updateCustom({ dangerBunks: Math.max(0, Math.floor(Number(e.target.value))) })}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2 col-span-2">
+          <span className="text-gray-300">Monthly minimum</span>
+          <span className="flex items-center gap-1 text-gray-500">
+            <input
+              type="number"
+              min={0}
+              max={100}
+              placeholder="Off"
+              disabled={!isCustom}
+              value={profile.monthlyMinimum === undefined ? '' : toPercent(profile.monthlyMinimum)}
+              onChange={e => updateCustom({ monthlyMinimum: e.target.value === '' ? undefined : fromPercent(e.target.value) })}
+              className={`${inputClass} disabled:opacity-50`}
+            />
+            %
+          </span>
+        </label>
+      </div>
+      <p className="relative z-10 text-[11px] text-gray-500">
+        {isCustom ? 'Lab target applies to subjects whose classes are all labs.' : 'Switch to Custom to edit these values.'}
+      </p>
+
+      {subjects.length > 0 && (
+        <div className="relative z-10 space-y-2">
+          <p className="text-xs font-medium text-gray-400 uppercase tracking-wide">Per-subject targets</p>
+          <ul className="space-y-1.5">
+            {subjects.map(subject => (
+              <li key={subject.id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-white truncate">
+                  {subject.name}
+                  {isLabSubject(subject) && <span className="ml-1.5 text-[10px] text-gray-500">LAB</span>}
+                </span>
+                <span className="flex items-center gap-1 text-gray-500 shrink-0">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    placeholder={String(toPercent(getSubjectTarget({ ...subject, targetPercentage: undefined }, settings)))}
+                    value={subject.targetPercentage === undefined ? '' : toPercent(subject.targetPercentage)}
+                    onChange={e => setOverride(subject, e.target.value)}
+                    className={inputClass}
+                  />
+                  %
+                  {subject.targetPercentage !== undefined && (
+                    <button onClick={() => setOverride(subject, '')} className="text-gray-500 hover:text-white" title="Use profile target">
+                      <RotateCcw size={12} />
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { DataRepair } from './DataRepair';
+import { downloadCrashReport, exitSafeMode } from '../utils/recovery';
+
+// Shown for the whole safe-mode session; nothing done here is saved
+export const SafeModeBanner: React.FC = () => {
+  const [showRepair, setShowRepair] = useState(false);
+
+  return (
+    <div className="pro-glass relative rounded-[20px] p-5 mb-6 border border-[#0A84FF]/30 animate-mac-scale-in">
+      <div className="relative z-10 flex items-start gap-3">
+        <ShieldCheck size={18} className="text-[#0A84FF] shrink-0 mt-0.5" />
+        <div className="flex-1 space-y-3">
+          <div>
+            <h3 className="text-sm font-semibold text-white">Safe mode</h3>
+            <p className="text-xs text-gray-400 mt-1">
+              Your saved data hasn't been loaded and won't be changed. Anything you do here is discarded when you leave.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setShowRepair(show => !show)}
+              aria-expanded={showRepair}
+              className="text-xs font-semibold px-3 py-1.5 rounded-lg bg-[#0A84FF] hover:bg-[#0077ED] text-white transition-colors"
+            >
+              Repair stored data
+            </button>
+            <button
+              onClick={() => downloadCrashReport()}
+              className="text-xs font-semibold px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/15 text-white transition-colors"
+            >
+              Download crash report
+            </button>
+            <button
+              onClick={exitSafeMode}
+              className="text-xs font-semibold px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/15 text-white transition-colors"
+            >
+              Leave safe mode
+            </button>
+          </div>
+
+          {showRepair && <DataRepair onRepaired={exitSafeMode} />}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { AppSettings, Semester, Subject } from '../types';
+import { Library, Archive, ArchiveRestore, Eye, Plus } from 'lucide-react';
+import { DEFAULT_SEMESTER_WEEKS } from '../constants';
+import { createSemester, isArchived, sortSemesters, summarizeSemester, summarizeSubjects } from '../utils/semesters';
+import { addDays, getTodayIn } from '../utils/dates';
+import { triggerHaptic } from '../utils/haptics';
+
+interface SemesterManagerProps {
+  semesters: Semester[];
+  subjects: Subject[];
+  settings: AppSettings;
+  activeSemesterId: string;
+  onSelect: (semesterId: string) => void;
+  onCreate: (semester: Semester, cloneFromId?: string) => void;
+  onSetArchived: (semesterId: string, archived: boolean) => void;
+}
+
+const inputClass = 'bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-[#0A84FF]/60';
+
+const barColor = (percentage: number | null, target: number) => {
+  if (percentage === null) return 'bg-white/10';
+  return percentage >= target * 100 ? 'bg-emerald-400' : 'bg-amber-400';
+};
+
+export const SemesterManager: React.FC<SemesterManagerProps> = ({
+  semesters, subjects, settings, activeSemesterId, onSelect, onCreate, onSetArchived,
+}) => {
+  const today = getTodayIn();
+  const [draft, setDraft] = useState({
+    name: '',
+    startDate: today,
+    endDate: addDays(today, DEFAULT_SEMESTER_WEEKS * 7),
+    cloneFromId: activeSemesterId,
+  });
+
+  const summaries = sortSemesters(semesters).map(semester => summarizeSemester(semester, subjects, settings));
+  const cumulative = summarizeSubjects(subjects, settings);
+
+  const handleCreate = () => {
+    if (!draft.startDate || !draft.endDate || draft.endDate < draft.startDate) return;
+    onCreate(createSemester(draft.startDate, draft.endDate, draft.name), draft.cloneFromId || undefined);
+    setDraft(prev => ({ ...prev, name: '' }));
+    triggerHaptic('success');
+  };
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-5 mt-6">
+      <div className="relative z-10 flex items-center gap-3">
+        <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+          <Library size={18} className="text-[#0A84FF]" />
+        </div>
+        <div>
+          <h2 className="text-base font-semibold text-white">Semesters</h2>
+          <p className="text-xs text-gray-400">Attendance across semesters; archived ones are read-only</p>
+        </div>
+      </div>
+
+      <ul className="relative z-10 space-y-2">
+        {summaries.map(({ semester, subjectCount, attended, total, percentage }) => {
+          const archived = isArchived(semester);
+          const active = semester.id === activeSemesterId;
+          return (
+            <li key={semester.id} className={`rounded-xl p-3 bg-white/5 border ${active ? 'border-[#0A84FF]/40' : 'border-white/5'}`}>
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-white truncate">
+                    {semester.name}
+                    {archived && <span className="ml-2 text-[10px] uppercase tracking-wide text-gray-500">Archived</span>}
+                  </p>
+                  <p className="text-[11px] text-gray-500 tabular-nums">
+                    {semester.startDate} – {semester.endDate} · {subjectCount} subject{subjectCount !== 1 && 's'} · {attended} / {total}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <span className="text-sm font-semibold text-white tabular-nums mr-2">
+                    {percentage === null ? '—' : `${percentage.toFixed(1)}%`}
+                  </span>
+                  {!active && (
+                    <button onClick={() => onSelect(semester.id)} title="View" className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10">
+                      <Eye size={14} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onSetArchived(semester.id, !archived)}
+                    title={archived ? 'Unarchive' : 'Archive'}
+                    className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10"
+                  >
+                    {archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                  </button>
+                </div>
+              </div>
+              <div className="mt-2 h-1.5 rounded-full bg-white/5 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${barColor(percentage, settings.targetPercentage)}`}
+                  style={{ width: `${percentage ?? 0}%` }}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {semesters.length > 1 && (
+        <div className="relative z-10 flex justify-between text-sm border-t border-white/10 pt-3">
+          <span className="text-gray-300">All semesters</span>
+          <span className="text-white font-semibold tabular-nums">
+            {cumulative.total > 0 ? `${((cumulative.attended / cumulative.total) * 100).toFixed(1)}%` : '—'}
+            <span className="text-gray-500 font-normal"> ({cumulative.attended} / {cumulative.total})</span>
+          </span>
+        </div>
+      )}
+
+      <div className="relative z-10 space-y-2 border-t border-white/10 pt-4">
+        <p className="text-xs font-medium text-gray-400 uppercase tracking-wide">Start a new semester</p>
+        <input
+          type="text"
+          placeholder="Name (optional)"
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          className={`${inputClass} w-full`}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="date" value={draft.startDate} onChange={e => setDraft({ ...draft, startDate: e.target.value })} className={inputClass} />
+          <span className="text-gray-500 text-sm">to</span>
+          <input type="date" min={draft.startDate} value={draft.endDate} onChange={e => setDraft({ ...draft, endDate: e.target.value })} className={inputClass} />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={draft.cloneFromId}
+            onChange={e => setDraft({ ...draft, cloneFromId: e.target.value })}
+            className={`${inputClass} flex-1`}
+          >
+            <option value="">Start with no subjects</option>
+            {summaries.map(({ semester }) => (
+              <option key={semester.id} value={semester.id}>Copy timetable from {semester.name}</option>
+            ))}
+          </select>
+          <button onClick={handleCreate} className="flex items-center gap-1 px-3 py-2 rounded-lg bg-[#0A84FF] hover:bg-[#0077ED] text-white text-sm font-medium">
+            <Plus size={14} /> Create
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,110 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+import { downloadCrashReport, enterSafeMode } from '../utils/recovery';
+
+export type StorageProblem =
+  | { kind: 'QUARANTINED'; count: number }
+  | { kind: 'UNREADABLE' }
+  | { kind: 'LOAD_FAILED'; message: string }
+  | { kind: 'SAVE_FAILED'; message: string };
+
+interface StorageNoticeProps {
+  problem: StorageProblem | null;
+  onStartFresh: () => void;
+  onDismiss: () => void;
+}
+
+const primaryButtonClass = 'text-xs font-semibold px-3 py-1.5 rounded-lg bg-[#0A84FF] hover:bg-[#0077ED] text-white transition-colors';
+const secondaryButtonClass = 'text-xs font-semibold px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/15 text-white transition-colors';
+
+const getCopy = (problem: StorageProblem): { title: string; detail: string } => {
+  switch (problem.kind) {
+    case 'QUARANTINED':
+      return {
+        title: `${problem.count} saved item${problem.count !== 1 ? 's' : ''} couldn't be read`,
+        detail: "They were set aside instead of loaded. A copy is kept and included in crash reports.",
+      };
+    case 'UNREADABLE':
+      return {
+        title: "Your saved data couldn't be read",
+        detail: "Nothing will be saved over it until you choose to start fresh. Safe mode can try to repair it first.",
+      };
+    case 'LOAD_FAILED':
+      return { title: "Your saved data couldn't be loaded", detail: problem.message };
+    case 'SAVE_FAILED':
+      return { title: "Your latest changes couldn't be saved", detail: problem.message };
+  }
+};
+
+// Problems reading or writing stored data, shown above the current view
+export const StorageNotice: React.FC<StorageNoticeProps> = ({ problem, onStartFresh, onDismiss }) => {
+  if (!problem) return null;
+  const { title, detail } = getCopy(problem);
+
+  return (
+    <div role="alert" className="pro-glass relative rounded-[20px] p-5 mb-6 border border-amber-500/20 animate-mac-scale-in">
+      <div className="relative z-10 flex items-start gap-3">
+        <AlertTriangle size={18} className="text-amber-400 shrink-0 mt-0.5" />
+        <div className="flex-1 space-y-3">
+          <div>
+            <h3 className="text-sm font-semibold text-white">{title}</h3>
+            <p className="text-xs text-gray-400 mt-1">{detail}</p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {problem.kind === 'LOAD_FAILED' && (
+              <button onClick={() => window.location.reload()} className={primaryButtonClass}>
+                Try again
+              </button>
+            )}
+            {(problem.kind === 'UNREADABLE' || problem.kind === 'LOAD_FAILED') && (
+              <button onClick={enterSafeMode} className={problem.kind === 'UNREADABLE' ? primaryButtonClass : secondaryButtonClass}>
+                Open safe mode
+              </button>
+            )}
+            {problem.kind === 'UNREADABLE' && (
+              <button onClick={onStartFresh} className={secondaryButtonClass}>
+                Start fresh
+              </button>
+            )}
+            {problem.kind !== 'SAVE_FAILED' && (
+              <button onClick={() => downloadCrashReport()} className={secondaryButtonClass}>
+                Download crash report
+              </button>
+            )}
+          </div>
+        </div>
+        {(problem.kind === 'QUARANTINED' || problem.kind === 'SAVE_FAILED') && (
+          <button onClick={onDismiss} aria-label="Dismiss" className="text-gray-500 hover:text-white">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Replaces the app when the stored data comes from a newer version, so this one can't save over it
+export const UpdateRequired: React.FC = () => (
+  <div className="min-h-screen flex items-center justify-center px-6">
+    <div role="alert" className="max-w-md w-full space-y-6 text-center">
+      <div className="flex justify-center">
+        <div className="h-14 w-14 rounded-full bg-[#0A84FF]/10 flex items-center justify-center">
+          <RefreshCw className="h-7 w-7 text-[#0A84FF]" />
+        </div>
+      </div>
+      <div>
+        <h1 className="text-2xl font-semibold text-white mb-2">Update SmartSkip</h1>
+        <p className="text-gray-400 text-sm">
+          Your data was saved by a newer version of the app. This copy is out of date and has left your data untouched. Reload, or close other open SmartSkip tabs and reopen it.
+        </p>
+      </div>
+      <button
+        onClick={() => window.location.reload()}
+        className="w-full py-3 bg-[#0A84FF] hover:bg-[#0077ED] text-white rounded-xl font-semibold transition-all"
+      >
+        Reload
+      </button>
+    </div>
+  </div>
+);
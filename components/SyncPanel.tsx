@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import QRCode from 'qrcode';
+import { RefreshCw, FileDown, FileUp, QrCode, ScanLine, X } from 'lucide-react';
+import {
+  addQRChunk, createSyncBundle, getDeviceId, getQRBundle, openSyncBundle, splitForQR,
+  QRProgress, SyncPayload, SyncState,
+} from '../utils/sync';
+import { downloadFile } from '../utils/download';
+import { getTodayIn } from '../utils/dates';
+import { triggerHaptic } from '../utils/haptics';
+
+interface SyncPanelProps {
+  state: SyncState;
+  onReceive: (payload: SyncPayload) => void;
+}
+
+const MIN_PASSPHRASE = 8;
+const QR_FRAME_MS = 900; // How long each code stays on screen
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-[#0A84FF]/60';
+const buttonClass = 'flex items-center justify-center gap-2 px-3 py-2.5 rounded-xl bg-white/5 border border-white/10 text-sm text-gray-200 hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-white/5';
+
+// The parts of the Shape Detection API used here; TypeScript's DOM types don't include it yet
+interface BarcodeDetector {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetector;
+  }
+}
+
+const isScanSupported = () => Boolean(window.BarcodeDetector) && Boolean(navigator.mediaDevices?.getUserMedia);
+
+// Camera preview that feeds every QR code it sees to onScan
+const QRScanner: React.FC<{ onScan: (text: string) => void; onError: (message: string) => void }> = ({ onScan, onError }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let intervalId: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+    const detector = new window.BarcodeDetector!({ formats: ['qr_code'] });
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(media => {
+        if (stopped) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current!;
+        video.srcObject = media;
+        video.play();
+        intervalId = setInterval(async () => {
+          if (video.readyState < 2) return;
+          const codes = await detector.detect(video).catch(() => []);
+          codes.forEach(code => onScanRef.current(code.rawValue));
+        }, 250);
+      })
+      .catch(() => onError('Camera access was denied'));
+
+    return () => {
+      stopped = true;
+      clearInterval(intervalId);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [onError]);
+
+  return <video ref={videoRef} muted playsInline className="w-full rounded-xl bg-black aspect-square object-cover" />;
+};
+
+export const SyncPanel: React.FC<SyncPanelProps> = ({ state, onReceive }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [qrImages, setQrImages] = useState<string[] | null>(null);
+  const [qrIndex, setQrIndex] = useState(0);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState<QRProgress | null>(null);
+  // Codes arrive from the camera faster than renders; the ref holds the live progress
+  const scanProgressRef = useRef<QRProgress | null>(null);
+  const isScanningRef = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const hasPassphrase = passphrase.length >= MIN_PASSPHRASE;
+
+  // Cycle through the codes so the other device can pick them up in any order
+  useEffect(() => {
+    if (!qrImages) return;
+    const intervalId = setInterval(() => setQrIndex(i => (i + 1) % qrImages.length), QR_FRAME_MS);
+    return () => clearInterval(intervalId);
+  }, [qrImages]);
+
+  const buildBundle = () =>
+    createSyncBundle({ deviceId: getDeviceId(), exportedAt: Date.now(), ...state }, passphrase);
+
+  const run = async (task: () => Promise<void>) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sync failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const receive = (bundleText: string) => run(async () => {
+    onReceive(await openSyncBundle(bundleText, passphrase));
+    triggerHaptic('success');
+  });
+
+  const handleExportFile = () => run(async () => {
+    downloadFile(`smartskip-sync-${getTodayIn()}.json`, await buildBundle(), 'application/json');
+  });
+
+  const handleShowQR = () => run(async () => {
+    const chunks = splitForQR(await buildBundle());
+    setQrImages(await Promise.all(chunks.map(chunk => QRCode.toDataURL(chunk, { errorCorrectionLevel: 'L', margin: 1, width: 320 }))));
+    setQrIndex(0);
+  });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => receive(String(reader.result));
+    reader.readAsText(file);
+  };
+
+  const startScanning = () => {
+    setError(null);
+    isScanningRef.current = true;
+    setIsScanning(true);
+  };
+
+  const stopScanning = () => {
+    isScanningRef.current = false;
+    scanProgressRef.current = null;
+    setIsScanning(false);
+    setScanProgress(null);
+  };
+
+  const handleScan = (text: string) => {
+    // A detection still in flight after the last code must not merge the bundle again
+    if (!isScanningRef.current) return;
+    const next = addQRChunk(scanProgressRef.current, text);
+    const bundle = getQRBundle(next);
+    if (!bundle) {
+      scanProgressRef.current = next;
+      setScanProgress(next);
+      return;
+    }
+    stopScanning();
+    receive(bundle);
+  };
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-4 mt-6">
+      <div className="relative z-10 flex items-center gap-3">
+        <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+          <RefreshCw size={18} className="text-[#0A84FF]" />
+        </div>
+        <div>
+          <h2 className="text-base font-semibold text-white">Sync Devices</h2>
+          <p className="text-xs text-gray-400">Encrypted transfer that merges instead of overwriting</p>
+        </div>
+      </div>
+
+      <div className="relative z-10 space-y-1">
+        <input
+          type="password"
+          placeholder="Passphrase (same on both devices)"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          className={inputClass}
+        />
+        {passphrase.length > 0 && !hasPassphrase && (
+          <p className="text-[11px] text-gray-500">Use at least {MIN_PASSPHRASE} characters.</p>
+        )}
+      </div>
+
+      <div className="relative z-10 grid grid-cols-2 gap-2">
+        <button onClick={handleExportFile} disabled={!hasPassphrase || isBusy} className={buttonClass}>
+          <FileDown size={16} /> Save sync file
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} disabled={!hasPassphrase || isBusy} className={buttonClass}>
+          <FileUp size={16} /> Open sync file
+        </button>
+        <button onClick={handleShowQR} disabled={!hasPassphrase || isBusy} className={buttonClass}>
+          <QrCode size={16} /> Show QR codes
+        </button>
+        <button
+          onClick={startScanning}
+          disabled={!hasPassphrase || isBusy || !isScanSupported()}
+          title={isScanSupported() ? undefined : 'This browser cannot scan QR codes; use a sync file instead'}
+          className={buttonClass}
+        >
+          <ScanLine size={16} /> Scan QR codes
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+      </div>
+
+      {error && <p className="relative z-10 text-xs text-red-400">{error}</p>}
+
+      {qrImages && (
+        <div className="relative z-10 flex flex-col items-center gap-2">
+          <img src={qrImages[qrIndex]} alt={`Sync code ${qrIndex + 1} of ${qrImages.length}`} className="w-64 h-64 rounded-xl bg-white p-2" />
+          <div className="flex items-center gap-3 text-xs text-gray-400">
+            <span className="tabular-nums">{qrIndex + 1} / {qrImages.length}</span>
+            <button onClick={() => setQrImages(null)} className="text-gray-500 hover:text-white"><X size={14} /></button>
+          </div>
+          <p className="text-[11px] text-gray-500 text-center">Scan these from the other device until it finishes.</p>
+        </div>
+      )}
+
+      {isScanning && (
+        <div className="relative z-10 space-y-2">
+          <QRScanner onScan={handleScan} onError={setError} />
+          <div className="flex items-center justify-between text-xs text-gray-400">
+            <span className="tabular-nums">
+              {scanProgress ? `${Object.keys(scanProgress.chunks).length} of ${scanProgress.count} codes` : 'Point the camera at the codes'}
+            </span>
+            <button onClick={stopScanning} className="text-gray-500 hover:text-white">Cancel</button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { HolidaySet, Subject } from '../types';
+import { Share2, Link, FileDown, Check } from 'lucide-react';
+import { createTemplate, getTemplateLink } from '../utils/templates';
+import { downloadFile } from '../utils/download';
+import { triggerHaptic } from '../utils/haptics';
+
+interface TemplateSharePanelProps {
+  subjects: Subject[];
+  holidaySets: HolidaySet[];
+  defaultName: string;
+}
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-[#0A84FF]/60';
+const buttonClass = 'flex items-center justify-center gap-2 px-3 py-2.5 rounded-xl bg-white/5 border border-white/10 text-sm text-gray-200 hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-white/5';
+
+const toFileName = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'timetable';
+
+export const TemplateSharePanel: React.FC<TemplateSharePanelProps> = ({ subjects, holidaySets, defaultName }) => {
+  const [name, setName] = useState(defaultName);
+  const [link, setLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const template = () => createTemplate(name, subjects, holidaySets);
+  const setCount = template().holidaySets.length;
+
+  const handleCopyLink = async () => {
+    const url = await getTemplateLink(template());
+    setLink(url);
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: `${name} timetable`, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      }
+      triggerHaptic('success');
+    } catch {
+      // Share sheet dismissed or clipboard blocked; the link stays visible below
+    }
+  };
+
+  const handleSaveFile = () => {
+    downloadFile(`${toFileName(name)}.json`, JSON.stringify(template(), null, 2), 'application/json');
+  };
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-4 mt-6">
+      <div className="relative z-10 flex items-center gap-3">
+        <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+          <Share2 size={18} className="text-[#0A84FF]" />
+        </div>
+        <div>
+          <h2 className="text-base font-semibold text-white">Share Timetable</h2>
+          <p className="text-xs text-gray-400">Classmates get your subjects and holidays, not your attendance</p>
+        </div>
+      </div>
+
+      <div className="relative z-10 space-y-1">
+        <input value={name} onChange={e => setName(e.target.value)} placeholder="Template name, e.g. CSE-B Sem 5" className={inputClass} />
+        <p className="text-[11px] text-gray-500">
+          {subjects.length} subject{subjects.length !== 1 && 's'} · {setCount} holiday list{setCount !== 1 && 's'}
+        </p>
+      </div>
+
+      <div className="relative z-10 grid grid-cols-2 gap-2">
+        <button onClick={handleCopyLink} disabled={subjects.length === 0} className={buttonClass}>
+          {copied ? <Check size={16} /> : <Link size={16} />} {copied ? 'Copied' : 'Share link'}
+        </button>
+        <button onClick={handleSaveFile} disabled={subjects.length === 0} className={buttonClass}>
+          <FileDown size={16} /> Save file
+        </button>
+      </div>
+
+      {link && (
+        <input
+          readOnly
+          value={link}
+          onFocus={e => e.target.select()}
+          className={`${inputClass} relative z-10 text-xs text-gray-400`}
+        />
+      )}
+      <p className="relative z-10 text-[11px] text-gray-500">
+        Opening the link or file shows the subjects for review before anything is added. Works offline.
+      </p>
+    </section>
+  );
+};
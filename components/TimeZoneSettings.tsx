@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react';
+import { Subject } from '../types';
+import { Globe } from 'lucide-react';
+import { getDeviceTimeZone, getSubjectTimeZone } from '../utils/dates';
+
+interface TimeZoneSettingsProps {
+  subjects: Subject[];
+  onUpdateSubjects: (subjects: Subject[], label: string) => void;
+}
+
+// Intl.supportedValuesOf is ES2022, newer than the lib this project targets
+declare global {
+  namespace Intl {
+    function supportedValuesOf(key: 'timeZone'): string[];
+  }
+}
+
+const selectClass = 'max-w-[55%] bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-[#0A84FF]/60';
+
+// Every zone the browser knows, or just the ones in use where that list isn't available
+const getZoneOptions = (inUse: string[]): string[] => {
+  const supported = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return Array.from(new Set([...supported, ...inUse])).sort();
+};
+
+export const TimeZoneSettings: React.FC<TimeZoneSettingsProps> = ({ subjects, onUpdateSubjects }) => {
+  const deviceZone = getDeviceTimeZone();
+  const zones = subjects.map(getSubjectTimeZone);
+  const options = useMemo(() => getZoneOptions([deviceZone, ...zones]), [deviceZone, zones.join('|')]);
+  const elsewhere = subjects.filter(subject => getSubjectTimeZone(subject) !== deviceZone);
+
+  const setZone = (subject: Subject, timeZone: string) => onUpdateSubjects([{ ...subject, timeZone }], `Change ${subject.name} time zone`);
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-4 mt-6">
+      <div className="relative z-10 flex items-center gap-3">
+        <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+          <Globe size={18} className="text-[#0A84FF]" />
+        </div>
+        <div>
+          <h2 className="text-base font-semibold text-white">Time Zones</h2>
+          <p className="text-xs text-gray-400">This device: {deviceZone}</p>
+        </div>
+      </div>
+
+      <p className="relative z-10 text-[11px] text-gray-500">
+        Class times are kept in each subject's zone, so travelling or a daylight-saving change doesn't move
+        which day a class falls on. Reminders fire at the right moment wherever you are.
+      </p>
+
+      {subjects.length > 0 && (
+        <ul className="relative z-10 space-y-1.5">
+          {subjects.map((subject, i) => (
+            <li key={subject.id} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-white truncate">{subject.name}</span>
+              <select value={zones[i]} onChange={e => setZone(subject, e.target.value)} className={selectClass}>
+                {options.map(zone => <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>)}
+              </select>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {elsewhere.length > 0 && (
+        <button
+          onClick={() => onUpdateSubjects(elsewhere.map(subject => ({ ...subject, timeZone: deviceZone })), 'Change time zones')}
+          className="relative z-10 text-xs font-medium text-[#0A84FF] hover:text-[#409CFF]"
+        >
+          Move {elsewhere.length} subject{elsewhere.length !== 1 && 's'} to {deviceZone}
+        </button>
+      )}
+    </section>
+  );
+};
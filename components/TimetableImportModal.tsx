@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Subject, DayOfWeek, HolidaySet } from '../types';
+import { X, FileUp, AlertTriangle, CalendarOff } from 'lucide-react';
+import { parseTimetableCSV, parseTimetableICS, TimetableParseResult } from '../utils/timetableImport';
+import { instantiateTemplate, parseTemplate } from '../utils/templates';
+import { getSubjectSlots } from '../utils/slots';
+import { useDialogFocus } from '../utils/focus';
+
+interface TimetableImportModalProps {
+  isOpen: boolean;
+  existingSubjects: Subject[];
+  holidaySets: HolidaySet[];
+  initial?: { label: string; result: TimetableParseResult } | null; // e.g. a template opened from a link
+  onClose: () => void;
+  onSave: (subjects: Subject[], holidaySets: HolidaySet[]) => void;
+}
+
+interface DraftRow {
+  subject: Subject;
+  include: boolean;
+  duplicate: boolean; // A subject with this name already exists
+}
+
+const inputClass = 'bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-[#0A84FF]/60';
+
+export const TimetableImportModal: React.FC<TimetableImportModalProps> = ({ isOpen, existingSubjects, holidaySets, initial, onClose, onSave }) => {
+  const [rows, setRows] = useState<DraftRow[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [newHolidaySets, setNewHolidaySets] = useState<HolidaySet[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  const loadResult = (label: string, result: TimetableParseResult) => {
+    const existingNames = new Set(existingSubjects.map(s => s.name.trim().toLowerCase()));
+    setFileName(label);
+    setErrors(result.errors);
+    setNewHolidaySets(result.holidaySets ?? []);
+    setRows(result.subjects.map(subject => {
+      const duplicate = existingNames.has(subject.name.trim().toLowerCase());
+      return { subject, include: !duplicate, duplicate };
+    }));
+  };
+
+  useEffect(() => {
+    if (initial) loadResult(initial.label, initial.result);
+  }, [initial]);
+
+  const reset = () => {
+    setRows([]);
+    setErrors([]);
+    setFileName(null);
+    setNewHolidaySets([]);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  useDialogFocus(dialogRef, isOpen, handleClose);
+
+  if (!isOpen) return null;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result);
+      if (/\.json$/i.test(file.name) || text.trimStart().startsWith('{')) {
+        try {
+          loadResult(file.name, instantiateTemplate(parseTemplate(JSON.parse(text)), holidaySets));
+        } catch (err) {
+          setFileName(file.name);
+          setErrors([err instanceof Error && !(err instanceof SyntaxError) ? err.message : 'This file is not valid JSON']);
+        }
+        return;
+      }
+      const isICS = /\.ics$/i.test(file.name) || text.includes('BEGIN:VCALENDAR');
+      loadResult(file.name, isICS ? parseTimetableICS(text) : parseTimetableCSV(text));
+    };
+    reader.readAsText(file);
+  };
+
+  const updateRow = (index: number, update: Partial<Subject>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, subject: { ...row.subject, ...update } } : row));
+  };
+
+  const selected = rows.filter(row => row.include);
+
+  // Only holiday sets that a chosen subject observes are added
+  const usedHolidaySets = newHolidaySets.filter(set => selected.some(row => row.subject.holidaySetIds?.includes(set.id)));
+
+  const handleSave = () => {
+    onSave(selected.map(row => row.subject), usedHolidaySets);
+    reset();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm px-4" onClick={handleClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="timetable-import-title"
+        className="pro-glass relative w-full max-w-lg max-h-[85vh] flex flex-col rounded-[24px] animate-mac-scale-in"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="relative z-10 flex items-center justify-between px-6 pt-6 pb-4 border-b border-white/5">
+          <div>
+            <h2 id="timetable-import-title" className="text-base font-semibold text-white">Import Timetable</h2>
+            <p className="text-xs text-gray-400">{fileName ?? 'CSV (subject, day, start time, start date, end date), .ics or a shared timetable'}</p>
+          </div>
+          <button onClick={handleClose} aria-label="Close" className="text-gray-500 hover:text-white"><X size={18} /></button>
+        </div>
+
+        <div className="relative z-10 flex-1 overflow-y-auto scrollbar-hide px-6 py-4 space-y-3">
+          {rows.length === 0 && (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full flex flex-col items-center gap-2 py-10 rounded-xl border border-dashed border-white/15 text-gray-400 hover:text-white hover:border-white/30 transition-colors"
+            >
+              <FileUp size={28} strokeWidth={1.5} />
+              <span className="text-sm">Choose a .csv, .ics or .json file</span>
+            </button>
+          )}
+          <input ref={fileInputRef} type="file" accept=".csv,.ics,.json,text/csv,text/calendar,application/json" className="hidden" onChange={handleFile} />
+
+          {errors.length > 0 && (
+            <div className="rounded-xl bg-amber-500/10 border border-amber-500/20 p-3 space-y-1">
+              <p className="flex items-center gap-1.5 text-xs font-semibold text-amber-400">
+                <AlertTriangle size={12} /> {errors.length} skipped
+              </p>
+              {errors.map((error, i) => <p key={i} className="text-[11px] text-amber-200/80">{error}</p>)}
+            </div>
+          )}
+
+          {usedHolidaySets.length > 0 && (
+            <p className="flex items-center gap-1.5 text-[11px] text-gray-400">
+              <CalendarOff size={12} /> Also adds holiday list{usedHolidaySets.length !== 1 && 's'}: {usedHolidaySets.map(set => set.name).join(', ')}
+            </p>
+          )}
+
+          {rows.map((row, index) => (
+            <div key={row.subject.id} className={`bg-white/5 border border-white/5 rounded-xl p-3 space-y-2 ${row.include ? '' : 'opacity-50'}`}>
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={row.include}
+                  onChange={e => setRows(prev => prev.map((r, i) => i === index ? { ...r, include: e.target.checked } : r))}
+                  className="accent-[#0A84FF]"
+                />
+                <input
+                  value={row.subject.name}
+                  onChange={e => updateRow(index, { name: e.target.value })}
+                  className={`${inputClass} flex-1 text-sm`}
+                />
+                {row.duplicate && <span className="text-[10px] text-amber-400 shrink-0">Already exists</span>}
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {getSubjectSlots(row.subject).map(slot => (
+                  <span key={slot.id} className="text-[10px] px-2 py-0.5 rounded-full bg-white/10 text-gray-300">
+                    {DayOfWeek[slot.day].slice(0, 3)} {slot.startTime ?? '—'}{slot.kind === 'LAB' && ' · Lab'}
+                  </span>
+                ))}
+              </div>
+              <div className="flex items-center gap-2 text-[11px] text-gray-400">
+                <input type="date" value={row.subject.startDate} onChange={e => updateRow(index, { startDate: e.target.value })} className={inputClass} />
+                <span>→</span>
+                <input type="date" value={row.subject.endDate} onChange={e => updateRow(index, { endDate: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {rows.length > 0 && (
+          <div className="relative z-10 px-6 py-4 border-t border-white/5">
+            <button
+              onClick={handleSave}
+              disabled={selected.length === 0}
+              className="w-full py-2.5 rounded-xl bg-[#0A84FF] hover:bg-[#0077ED] disabled:opacity-40 text-white text-sm font-semibold transition-colors"
+            >
+              Add {selected.length} Subject{selected.length !== 1 && 's'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { AttendanceStatus, RecordStatus } from '../types';
+import { Check, X, ExternalLink } from 'lucide-react';
+import { STATUS_LABELS } from '../constants';
+import { TodaySummary } from '../utils/today';
+import { parseISODate } from '../utils/dates';
+import { triggerHaptic } from '../utils/haptics';
+
+interface TodayViewProps {
+  summary: TodaySummary | null; // Null until stored data has loaded
+  onMark: (subjectId: string, slotId: string, date: string, status: RecordStatus) => void;
+}
+
+const STATUS_COLORS: Record<AttendanceStatus, string> = {
+  SAFE: 'text-emerald-400',
+  DANGER: 'text-amber-400',
+  IMPOSSIBLE: 'text-red-400',
+};
+
+const MARK_BUTTONS: { status: RecordStatus; icon: React.ReactNode; active: string }[] = [
+  { status: 'PRESENT', icon: <Check size={14} />, active: 'bg-emerald-500/80 text-white' },
+  { status: 'ABSENT', icon: <X size={14} />, active: 'bg-red-500/80 text-white' },
+];
+
+/**
+ * Compact today summary for ?view=today: sized for a home-screen widget,
+ * a pinned tab or a narrow side panel, with one-tap marking.
+ */
+export const TodayView: React.FC<TodayViewProps> = ({ summary, onMark }) => {
+  if (!summary) return <div className="min-h-screen" />;
+
+  const title = parseISODate(summary.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const { classes, subjects } = summary;
+
+  return (
+    <main className="max-w-sm mx-auto p-3 space-y-3">
+      <header className="flex items-center justify-between gap-3 px-1">
+        <div>
+          <h1 className="text-sm font-semibold text-white">Today · {title}</h1>
+          <p className="text-[11px] text-gray-400">
+            {classes.length === 0 ? 'No classes' : `${summary.logged} of ${classes.length} logged`}
+          </p>
+        </div>
+        <a href="./" className="flex items-center gap-1 text-[11px] text-[#0A84FF] hover:text-[#409CFF]">
+          Open app <ExternalLink size={11} />
+        </a>
+      </header>
+
+      {classes.length > 0 && (
+        <ul className="space-y-1.5">
+          {classes.map(c => (
+            <li key={`${c.subjectId}-${c.slotId}`} className="pro-glass relative flex items-center gap-2.5 rounded-2xl px-3 py-2">
+              <span className="relative z-10 w-10 text-[11px] text-gray-500 tabular-nums shrink-0">{c.startTime ?? '—'}</span>
+              <span className="relative z-10 flex-1 min-w-0 text-sm text-white truncate">
+                {c.subjectName}
+                {c.extra && <span className="ml-1.5 text-[10px] text-[#0A84FF]">EXTRA</span>}
+              </span>
+              <div className="relative z-10 flex gap-1 shrink-0">
+                {MARK_BUTTONS.map(({ status, icon, active }) => (
+                  <button
+                    key={status}
+                    title={STATUS_LABELS[status]}
+                    aria-label={`${STATUS_LABELS[status]}: ${c.subjectName}`}
+                    aria-pressed={c.status === status}
+                    onClick={() => {
+                      onMark(c.subjectId, c.slotId, c.date, status);
+                      triggerHaptic('light');
+                    }}
+                    className={`w-7 h-7 rounded-lg flex items-center justify-center transition-colors ${
+                      c.status === status ? active : 'bg-white/5 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {icon}
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {subjects.length > 0 && (
+        <ul className="flex flex-wrap gap-1.5 px-1">
+          {subjects.map(s => (
+            <li key={s.id} className="text-[11px] px-2 py-1 rounded-full bg-white/5 border border-white/10 text-gray-300">
+              {s.name} <span className={`tabular-nums ${STATUS_COLORS[s.status]}`}>{Math.round(s.percentage)}%</span>
+              {s.bunksAvailable > 0 && <span className="text-gray-500"> · {s.bunksAvailable} skip{s.bunksAvailable !== 1 && 's'}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </main>
+  );
+};
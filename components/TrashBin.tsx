@@ -0,0 +1,60 @@
+import React from 'react';
+import { TrashEntry } from '../types';
+import { Trash2, RotateCcw, X } from 'lucide-react';
+import { TRASH_RETENTION_DAYS } from '../constants';
+import { getTrashExpiry } from '../utils/mutations';
+
+interface TrashBinProps {
+  trash: TrashEntry[];
+  onRestore: (subjectId: string) => void;
+  onPurge: (subjectId: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TrashBin: React.FC<TrashBinProps> = ({ trash, onRestore, onPurge }) => {
+  const now = Date.now();
+  const entries = [...trash].sort((a, b) => b.deletedAt - a.deletedAt);
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-4 mt-6">
+      <div className="relative z-10 flex items-center gap-3">
+        <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+          <Trash2 size={18} className="text-[#0A84FF]" />
+        </div>
+        <div>
+          <h2 className="text-base font-semibold text-white">Recently Deleted</h2>
+          <p className="text-xs text-gray-400">Deleted subjects are kept for {TRASH_RETENTION_DAYS} days</p>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="relative z-10 text-xs text-gray-500">Nothing here.</p>
+      ) : (
+        <ul className="relative z-10 space-y-1.5">
+          {entries.map(entry => {
+            const daysLeft = Math.max(0, Math.ceil((getTrashExpiry(entry) - now) / DAY_MS));
+            return (
+              <li key={entry.id} className="flex items-center justify-between gap-3 rounded-xl px-3 py-2 bg-white/5 border border-white/5">
+                <div className="min-w-0">
+                  <p className="text-sm text-white truncate">{entry.subject.name}</p>
+                  <p className="text-[11px] text-gray-500">
+                    {entry.subject.history.length} record{entry.subject.history.length !== 1 && 's'} · {daysLeft} day{daysLeft !== 1 && 's'} left
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button onClick={() => onRestore(entry.id)} className="flex items-center gap-1 text-xs font-medium text-[#0A84FF] hover:text-[#409CFF] px-2 py-1">
+                    <RotateCcw size={12} /> Restore
+                  </button>
+                  <button onClick={() => onPurge(entry.id)} title="Delete forever" className="p-1.5 rounded-lg text-gray-500 hover:text-red-400 hover:bg-white/10">
+                    <X size={14} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,41 @@
+import React, { useEffect } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+
+export interface ToastState {
+  id: number;
+  message: string;
+}
+
+interface UndoToastProps {
+  toast: ToastState | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number; // ms before the toast hides itself
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ toast, onUndo, onDismiss, duration = 8000 }) => {
+  useEffect(() => {
+    if (!toast) return;
+    const timeoutId = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timeoutId);
+  }, [toast, duration, onDismiss]);
+
+  if (!toast) return null;
+
+  return (
+    <div className="fixed bottom-28 left-1/2 -translate-x-1/2 z-[55] animate-mac-scale-in">
+      <div className="flex items-center gap-4 bg-[#1c1c1e]/90 backdrop-blur-2xl border border-white/10 rounded-2xl pl-4 pr-2 py-2 shadow-[0_20px_40px_rgba(0,0,0,0.6)]">
+        <span className="text-sm text-white whitespace-nowrap">{toast.message}</span>
+        <button
+          onClick={onUndo}
+          className="flex items-center gap-1.5 text-sm font-semibold text-[#0A84FF] hover:text-[#409CFF] px-2 py-1"
+        >
+          <RotateCcw size={14} /> Undo
+        </button>
+        <button onClick={onDismiss} aria-label="Dismiss" className="text-gray-500 hover:text-white p-1">
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
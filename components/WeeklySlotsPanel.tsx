@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { ClassSlot, DayOfWeek, SlotKind, Subject } from '../types';
+import { Clock, Trash2 } from 'lucide-react';
+import { SLOT_WEIGHTS } from '../constants';
+import { bySlotTime, createSlot, getSubjectSlots, syncScheduleFromSlots } from '../utils/slots';
+import { triggerHaptic } from '../utils/haptics';
+
+interface WeeklySlotsPanelProps {
+  subjects: Subject[];
+  onUpdateSubjects: (subjects: Subject[], label: string) => void;
+}
+
+const KIND_LABELS: Record<SlotKind, string> = {
+  LECTURE: 'Lecture',
+  LAB: 'Lab',
+  TUTORIAL: 'Tutorial',
+};
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-[#0A84FF]/60';
+
+// Monday first, the way timetables are printed
+const byWeekThenTime = (a: ClassSlot, b: ClassSlot) =>
+  ((a.day + 6) % 7) - ((b.day + 6) % 7) || bySlotTime(a, b);
+
+/**
+ * Edits a subject's weekly timetable slot by slot. Legacy subjects are
+ * converted to explicit slots on their first edit.
+ */
+export const WeeklySlotsPanel: React.FC<WeeklySlotsPanelProps> = ({ subjects, onUpdateSubjects }) => {
+  const [subjectId, setSubjectId] = useState('');
+  const [day, setDay] = useState<DayOfWeek>(DayOfWeek.Monday);
+  const [startTime, setStartTime] = useState('');
+  const [kind, setKind] = useState<SlotKind>('LECTURE');
+
+  const subject = subjects.find(s => s.id === subjectId) ?? subjects[0];
+  const slots = subject ? [...getSubjectSlots(subject)].sort(byWeekThenTime) : [];
+
+  const saveSlots = (next: ClassSlot[], label: string) => {
+    if (!subject) return;
+    onUpdateSubjects([syncScheduleFromSlots({ ...subject, slots: next })], label);
+  };
+
+  const handleAdd = () => {
+    if (!subject) return;
+    saveSlots([...slots, createSlot(day, startTime || undefined, kind)], `Add ${subject.name} slot`);
+    setStartTime('');
+    triggerHaptic('success');
+  };
+
+  const handleRemove = (slot: ClassSlot) => {
+    if (!subject) return;
+    saveSlots(slots.filter(s => s.id !== slot.id), `Remove ${subject.name} slot`);
+    triggerHaptic('light');
+  };
+
+  return (
+    <section className="pro-glass relative rounded-[24px] p-6 space-y-4 mt-6">
+      <div className="relative z-10 flex items-center gap-3">
+        <div className="w-9 h-9 rounded-xl bg-white/5 border border-white/10 flex items-center justify-center">
+          <Clock size={18} className="text-[#0A84FF]" />
+        </div>
+        <div>
+          <h2 className="text-base font-semibold text-white">Weekly Timetable</h2>
+          <p className="text-xs text-gray-400">Each class slot with its own day, time and weight</p>
+        </div>
+      </div>
+
+      {!subject ? (
+        <p className="relative z-10 text-xs text-gray-500">Add a subject first.</p>
+      ) : (
+        <div className="relative z-10 space-y-3">
+          <select value={subject.id} onChange={e => setSubjectId(e.target.value)} aria-label="Subject" className={inputClass}>
+            {subjects.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+
+          <ul className="space-y-1.5">
+            {slots.map(slot => (
+              <li key={slot.id} className="flex items-center gap-3 rounded-xl px-3 py-2 bg-white/5 border border-white/5">
+                <p className="flex-1 text-sm text-white">
+                  {DAY_LABELS[slot.day]}
+                  <span className="text-gray-400"> · {slot.startTime ?? 'Untimed'} · {KIND_LABELS[slot.kind]}</span>
+                  {slot.weight !== 1 && <span className="ml-1.5 text-[10px] text-gray-500">×{slot.weight}</span>}
+                </p>
+                <button
+                  onClick={() => handleRemove(slot)}
+                  disabled={slots.length === 1}
+                  title={slots.length === 1 ? 'A subject needs at least one slot' : 'Remove'}
+                  aria-label={`Remove ${DAY_LABELS[slot.day]} ${slot.startTime ?? 'untimed'} slot`}
+                  className="p-1.5 rounded-lg text-gray-500 hover:text-red-400 hover:bg-white/10 shrink-0 disabled:opacity-30 disabled:hover:text-gray-500"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="grid grid-cols-3 gap-2">
+            <select value={day} onChange={e => setDay(Number(e.target.value) as DayOfWeek)} aria-label="Day" className={inputClass}>
+              {DAY_LABELS.map((label, i) => <option key={label} value={i}>{label}</option>)}
+            </select>
+            <input type="time" value={startTime} onChange={e => setStartTime(e.target.value)} aria-label="Start time" className={inputClass} />
+            <select value={kind} onChange={e => setKind(e.target.value as SlotKind)} aria-label="Class type" className={inputClass}>
+              {(Object.keys(KIND_LABELS) as SlotKind[]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+            </select>
+          </div>
+
+          <button
+            onClick={handleAdd}
+            className="w-full py-2.5 rounded-xl bg-[#0A84FF] hover:bg-[#0071e3] text-sm font-medium text-white"
+          >
+            Add slot
+          </button>
+          <p className="text-[11px] text-gray-500">Labs count as {SLOT_WEIGHTS.LAB} attendance units.</p>
+        </div>
+      )}
+    </section>
+  );
+};
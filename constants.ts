@@ -1,21 +1,113 @@
-// Mock BHU/India 2026 Gazetted Holidays
-// In a real app, this could be fetched from an API
-export const HOLIDAYS_2026: string[] = [
-  "2026-01-26", // Republic Day
-  "2026-03-08", // Maha Shivaratri (Approx)
-  "2026-03-24", // Holi (Approx)
-  "2026-04-02", // Mahavir Jayanti (Approx)
-  "2026-04-10", // Good Friday
-  "2026-05-23", // Buddha Purnima
-  "2026-08-15", // Independence Day
-  "2026-09-04", // Janmashtami
-  "2026-10-02", // Gandhi Jayanti
-  "2026-10-20", // Dussehra
-  "2026-11-08", // Diwali
-  "2026-11-25", // Guru Nanak Jayanti
-  "2026-12-25", // Christmas
+import { AppSettings, RecordStatus, RuleProfile, StatusRule } from './types';
+
+// Mock BHU/India Gazetted Holidays for the 2026 and 2027 calendar years
+// Seeds the built-in holiday set; users manage their own sets from Preferences
+export const DEFAULT_HOLIDAY_SET_ID = 'builtin-india-2026';
+export const DEFAULT_HOLIDAYS: { date: string; name: string }[] = [
+  { date: "2026-01-26", name: "Republic Day" },
+  { date: "2026-03-08", name: "Maha Shivaratri (Approx)" },
+  { date: "2026-03-24", name: "Holi (Approx)" },
+  { date: "2026-04-02", name: "Mahavir Jayanti (Approx)" },
+  { date: "2026-04-10", name: "Good Friday" },
+  { date: "2026-05-23", name: "Buddha Purnima" },
+  { date: "2026-08-15", name: "Independence Day" },
+  { date: "2026-09-04", name: "Janmashtami" },
+  { date: "2026-10-02", name: "Gandhi Jayanti" },
+  { date: "2026-10-20", name: "Dussehra" },
+  { date: "2026-11-08", name: "Diwali" },
+  { date: "2026-11-25", name: "Guru Nanak Jayanti" },
+  { date: "2026-12-25", name: "Christmas" },
+  { date: "2027-01-26", name: "Republic Day" },
+  { date: "2027-03-06", name: "Maha Shivaratri (Approx)" },
+  { date: "2027-03-22", name: "Holi (Approx)" },
+  { date: "2027-03-26", name: "Good Friday" },
+  { date: "2027-04-19", name: "Mahavir Jayanti (Approx)" },
+  { date: "2027-05-20", name: "Buddha Purnima (Approx)" },
+  { date: "2027-08-15", name: "Independence Day" },
+  { date: "2027-08-25", name: "Janmashtami (Approx)" },
+  { date: "2027-10-02", name: "Gandhi Jayanti" },
+  { date: "2027-10-09", name: "Dussehra (Approx)" },
+  { date: "2027-10-29", name: "Diwali (Approx)" },
+  { date: "2027-11-14", name: "Guru Nanak Jayanti (Approx)" },
+  { date: "2027-12-25", name: "Christmas" },
+];
+
+export const CHAOS_FACTOR = 0.95; // 95% of classes actually happen until cancellations are logged
+export const CANCELLATION_PRIOR_UNITS = 4; // Logged units needed before a rate leans on the data
+export const CANCELLATION_RANGE_Z = 1.28;  // ~80% band for pessimistic/optimistic
+
+// Institution rule profiles
+// 'custom' is built from AppSettings (targetPercentage / customProfile)
+export const CUSTOM_PROFILE_ID = 'custom';
+export const RULE_PRESETS: RuleProfile[] = [
+  { id: 'bhu', name: 'BHU', theoryTarget: 0.75, labTarget: 0.75, dangerMargin: 0.05, dangerBunks: 0 },
+  { id: 'vit', name: 'VIT', theoryTarget: 0.75, labTarget: 0.75, dangerMargin: 0.05, dangerBunks: 2 },
+  { id: 'strict-labs', name: 'Strict Labs', theoryTarget: 0.75, labTarget: 0.8, dangerMargin: 0.05, dangerBunks: 1 },
+  { id: 'monthly', name: 'Monthly Minimum', theoryTarget: 0.75, labTarget: 0.75, dangerMargin: 0, dangerBunks: 0, monthlyMinimum: 0.6 },
 ];
 
-export const CHAOS_FACTOR = 0.95; // 95% of classes actually happen
-export const TARGET_PERCENTAGE = 0.75;
-export const MAX_ABSENCE_PERCENTAGE = 0.25;
\ No newline at end of file
+// Attendance statuses
+export const DEFAULT_LEAVE_CAP = 0.1;  // Leave may cover up to 10% of held classes
+export const DEFAULT_LATE_CREDIT = 1; // Late marks count as present unless configured
+
+export const STATUS_RULES: Record<RecordStatus, StatusRule> = {
+  PRESENT:       { countsTowardTotal: true,  credit: 1, isLeave: false },
+  ABSENT:        { countsTowardTotal: true,  credit: 0, isLeave: false },
+  LATE:          { countsTowardTotal: true,  credit: DEFAULT_LATE_CREDIT, isLeave: false },
+  CANCELLED:     { countsTowardTotal: false, credit: 0, isLeave: false },
+  MEDICAL_LEAVE: { countsTowardTotal: true,  credit: 1, isLeave: true },
+  DUTY_LEAVE:    { countsTowardTotal: true,  credit: 1, isLeave: true },
+};
+
+export const STATUS_LABELS: Record<RecordStatus, string> = {
+  PRESENT: 'Present',
+  ABSENT: 'Absent',
+  LATE: 'Late',
+  CANCELLED: 'Cancelled',
+  MEDICAL_LEAVE: 'Medical Leave',
+  DUTY_LEAVE: 'Duty Leave',
+};
+
+// Reminders
+export const CLASS_REMINDER_LEAD_MINUTES = 15;
+export const REMINDER_HORIZON_DAYS = 7;          // How far ahead reminders are scheduled
+export const REMINDER_CATCH_UP_MS = 12 * 60 * 60 * 1000; // Missed daily and digest reminders older than this are dropped
+export const RISK_ALERT_FALLBACK_TIME = '08:00';  // Risk alerts for subjects without class times
+export const NOTIFICATION_LOG_LIMIT = 100;        // Shown notifications kept for the log
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  notificationsEnabled: false,
+  dailyReminder: true,
+  dailyReminderTime: '20:00',
+  classReminders: true,
+  classReminderLead: CLASS_REMINDER_LEAD_MINUTES,
+  quietHours: false,
+  quietHoursStart: '23:00',
+  quietHoursEnd: '07:00',
+  riskAlerts: true,
+  nightlyDigest: false,
+  nightlyDigestTime: '21:30',
+  targetPercentage: 0.75, // Default 75%
+  leaveCap: DEFAULT_LEAVE_CAP,
+  lateCredit: DEFAULT_LATE_CREDIT,
+  ruleProfileId: CUSTOM_PROFILE_ID,
+};
+
+// Timetable slots
+export const DEFAULT_SLOT_DURATION = 60; // minutes
+export const DEFAULT_SEMESTER_WEEKS = 16; // Used when an import gives no end date
+export const SLOT_WEIGHTS = {
+  LECTURE: 1,
+  TUTORIAL: 1,
+  LAB: 2,
+} as const;
+
+// Analytics
+export const ANALYTICS_TREND_DAYS = 28; // Recent window used to project the target crossing
+
+// Undo history and soft delete
+export const MUTATION_HISTORY_LIMIT = 50; // Undo steps kept per session
+export const TRASH_RETENTION_DAYS = 30;
+
+// Crash recovery
+export const ERROR_LOG_LIMIT = 20; // Errors kept for crash reports, newest first
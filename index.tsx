@@ -1,7 +1,10 @@
 import React, { ReactNode } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
-import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { AlertTriangle, RefreshCw, ShieldCheck, FileDown, Wrench } from 'lucide-react';
+import { registerServiceWorker } from './utils/serviceWorker';
+import { downloadCrashReport, enterSafeMode, exitSafeMode, installErrorLogging, isSafeMode, logError } from './utils/recovery';
+import { DataRepair } from './components/DataRepair';
 
 interface ErrorBoundaryProps {
   children: ReactNode;
@@ -10,17 +13,21 @@ interface ErrorBoundaryProps {
 interface ErrorBoundaryState {
   hasError: boolean;
   error: Error | null;
+  showRepair: boolean;
 }
 
+const secondaryButtonClass = 'w-full py-3 bg-white/5 hover:bg-white/10 border border-white/10 text-white rounded-xl font-medium text-sm transition-all flex items-center justify-center gap-2';
+
 class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
-  public state: ErrorBoundaryState = { hasError: false, error: null };
+  public state: ErrorBoundaryState = { hasError: false, error: null, showRepair: false };
 
-  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+  static getDerivedStateFromError(error: Error): Partial<ErrorBoundaryState> {
     return { hasError: true, error };
   }
 
   componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
     console.error('Uncaught error:', error, errorInfo);
+    logError(error, errorInfo.componentStack);
   }
 
   render() {
@@ -37,6 +44,7 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
               <h1 className="text-2xl font-semibold mb-2">Something went wrong</h1>
               <p className="text-slate-300 text-sm">
                 SmartSkip encountered an unexpected issue. The application has been paused to prevent data corruption.
+                {!isSafeMode() && ' If it happens again on restart, your stored data may be the cause.'}
               </p>
               <p className="mt-3 text-xs text-slate-400">
                 {this.state.error?.toString() || 'Unknown Error'}
@@ -49,6 +57,30 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
               <RefreshCw className="h-4 w-4" />
               Restart Application
             </button>
+            <div className="space-y-2">
+              {!isSafeMode() && (
+                <button onClick={enterSafeMode} className={secondaryButtonClass}>
+                  <ShieldCheck className="h-4 w-4" />
+                  Start in Safe Mode
+                </button>
+              )}
+              <button onClick={() => downloadCrashReport()} className={secondaryButtonClass}>
+                <FileDown className="h-4 w-4" />
+                Download Crash Report
+              </button>
+              <button
+                onClick={() => this.setState(state => ({ showRepair: !state.showRepair }))}
+                aria-expanded={this.state.showRepair}
+                className={secondaryButtonClass}
+              >
+                <Wrench className="h-4 w-4" />
+                Repair Stored Data
+              </button>
+            </div>
+            {this.state.showRepair && <DataRepair onRepaired={exitSafeMode} />}
+            <p className="text-[11px] text-slate-500">
+              Safe mode opens SmartSkip without your saved data and leaves it untouched. The crash report holds your stored data and recent errors; it stays on this device unless you share it.
+            </p>
           </div>
         </div>
       );
@@ -58,6 +90,8 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
   }
 }
 
+installErrorLogging();
+
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error('Could not find root element to mount to');
@@ -71,3 +105,8 @@ root.render(
     </ErrorBoundary>
   </React.StrictMode>
 );
+
+// Offline shell + background reminders
+window.addEventListener('load', () => {
+  registerServiceWorker();
+});
@@ -0,0 +1,206 @@
+// SmartSkip service worker
+// 1. Caches the app shell so the app opens offline.
+// 2. Shows reminder notifications from a schedule the page sends over,
+//    independent of whether a tab is open. Reminders missed while the device
+//    slept are shown on the next wake-up (periodic sync, page message or
+//    notification trigger) as long as they are within the catch-up window.
+// 3. Serves the page's latest today summary at ./today.json, a data feed for
+//    home-screen widgets. It is as fresh as the last time the app was open.
+
+const CACHE_NAME = 'smartskip-shell-v2';
+const SHELL_URLS = ['./', './index.html', './manifest.json', './icons/icon.svg'];
+const PRECACHE_MANIFEST = './precache-manifest.json'; // Written by the build, see vite.config.ts
+
+// Same database and store names as SW_DB_NAME / STORE_NAME in utils/storage.ts
+const DB_NAME = 'smartskip-sw';
+const STORE_NAME = 'kv';
+const CATCH_UP_MS = 12 * 60 * 60 * 1000; // Matches REMINDER_CATCH_UP_MS; class and risk reminders expire sooner
+const LOG_LIMIT = 100; // Matches NOTIFICATION_LOG_LIMIT in constants.ts
+const ICON = './icons/icon.svg';
+const TODAY_FEED = 'today.json';
+
+// --- Tiny IndexedDB key/value store (service workers have no localStorage) ---
+
+const openDb = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const idb = async (mode, op) => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = op(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getValue = (key, fallback) => idb('readonly', store => store.get(key)).then(v => v ?? fallback);
+const setValue = (key, value) => idb('readwrite', store => store.put(value, key));
+
+// Shown reminders are kept for the notification log in Preferences
+const appendLog = async (reminders, shownAt) => {
+  if (reminders.length === 0) return;
+  const log = await getValue('log', []);
+  const entries = reminders.map(r => ({ ...r, shownAt: shownAt ?? r.fireAt }));
+  await setValue('log', [...log, ...entries].slice(-LOG_LIMIT));
+};
+
+// --- Reminders ---
+
+const showReminder = (reminder, now) => {
+  const missedBy = now - reminder.fireAt;
+  const late = missedBy > 60 * 1000
+    ? ` (missed at ${new Date(reminder.fireAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })})`
+    : '';
+  return self.registration.showNotification(reminder.title, {
+    body: reminder.body + late,
+    tag: reminder.id,
+    icon: ICON,
+    data: { url: './' },
+  });
+};
+
+const checkDueReminders = async () => {
+  const now = Date.now();
+  const reminders = await getValue('reminders', []);
+  const fired = new Set(await getValue('fired', []));
+
+  // Same rule as getDueReminders in utils/reminders.ts
+  const due = reminders.filter(r =>
+    r.fireAt <= now && now - r.fireAt <= CATCH_UP_MS && (r.expiresAt === undefined || now < r.expiresAt) && !fired.has(r.id)
+  );
+  if (due.length === 0) return;
+
+  await Promise.all(due.map(r => showReminder(r, now)));
+  due.forEach(r => fired.add(r.id));
+  await appendLog(due, now);
+
+  // Only remember ids that can still come back in a schedule
+  const live = new Set(reminders.map(r => r.id));
+  await setValue('fired', Array.from(fired).filter(id => live.has(id)));
+};
+
+// Hands future reminders to the Notification Triggers API where supported,
+// so they fire on time even if the worker is not running. Handed-off ids
+// count as fired so the catch-up check doesn't show them a second time.
+const scheduleTriggers = async reminders => {
+  if (!('TimestampTrigger' in self)) return;
+
+  // Drop pending triggers that are no longer in the schedule
+  const ids = new Set(reminders.map(r => r.id));
+  const pending = await self.registration.getNotifications({ includeTriggered: true });
+  pending.filter(n => n.showTrigger && !ids.has(n.tag)).forEach(n => n.close());
+
+  // ...and their log entries, which were written ahead of time
+  const now = Date.now();
+  const log = await getValue('log', []);
+  await setValue('log', log.filter(entry => entry.shownAt <= now || ids.has(entry.id)));
+
+  const fired = new Set(await getValue('fired', []));
+  const future = reminders.filter(r => r.fireAt > now && !fired.has(r.id));
+  await Promise.all(future.map(r => self.registration.showNotification(r.title, {
+    body: r.body,
+    tag: r.id,
+    icon: ICON,
+    data: { url: './' },
+    showTrigger: new self.TimestampTrigger(r.fireAt),
+  })));
+
+  future.forEach(r => fired.add(r.id));
+  await setValue('fired', Array.from(fired));
+  await appendLog(future); // Logged at their fireAt; the page hides them until then
+};
+
+const replaceSchedule = async reminders => {
+  await setValue('reminders', reminders);
+  await scheduleTriggers(reminders);
+  await checkDueReminders();
+};
+
+// --- Lifecycle ---
+
+// The build's hashed bundles, styles and fonts. The page loads them before
+// this worker controls it, so they have to be cached here or the first
+// offline launch has no scripts. The dev server has no manifest.
+const getBuildUrls = () =>
+  fetch(PRECACHE_MANIFEST, { cache: 'no-store' })
+    .then(response => (response.ok ? response.json() : []))
+    .then(files => files.map(file => `./${file}`))
+    .catch(() => []);
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    Promise.all([caches.open(CACHE_NAME), getBuildUrls()])
+      .then(([cache, buildUrls]) => cache.addAll(Array.from(new Set([...SHELL_URLS, ...buildUrls]))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+      .then(checkDueReminders)
+  );
+});
+
+// Same-origin GETs go to the network first and fall back to the cache, so
+// updates land immediately while the last good copy keeps working offline.
+// Navigations fall back to the cached shell.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (url.pathname === new URL(TODAY_FEED, self.registration.scope).pathname) {
+    event.respondWith(getValue('today', null).then(summary => new Response(JSON.stringify(summary), {
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    })));
+    return;
+  }
+
+  const isNavigation = request.mode === 'navigate';
+  event.respondWith(
+    fetch(request)
+      .then(response => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(isNavigation ? './index.html' : request, copy));
+        }
+        return response;
+      })
+      .catch(() => caches.match(isNavigation ? './index.html' : request))
+  );
+});
+
+self.addEventListener('message', event => {
+  const { type, reminders, summary } = event.data || {};
+  if (type === 'SCHEDULE_REMINDERS') {
+    event.waitUntil(replaceSchedule(reminders || []));
+  } else if (type === 'TODAY_SUMMARY') {
+    event.waitUntil(setValue('today', summary ?? null));
+  } else if (type === 'CHECK_REMINDERS') {
+    event.waitUntil(checkDueReminders());
+  }
+});
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === 'smartskip-reminders') {
+    event.waitUntil(checkDueReminders());
+  }
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      if (windows.length > 0) return windows[0].focus();
+      return self.clients.openWindow(event.notification.data?.url || './');
+    })
+  );
+});
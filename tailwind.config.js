@@ -0,0 +1,58 @@
+// Built into index.css at build time, so styles work offline (see public/sw.js)
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.tsx', './components/**/*.tsx', './utils/**/*.{ts,tsx}'],
+  theme: {
+    extend: {
+      fontFamily: {
+        sans: ['SF Pro Display', '-apple-system', 'BlinkMacSystemFont', 'Inter', 'Segoe UI', 'sans-serif'],
+      },
+      colors: {
+        macos: {
+          bg: "#000000",
+          glass: "rgba(30, 30, 35, 0.70)", 
+          border: "rgba(255, 255, 255, 0.10)",
+          active: "#0A84FF",
+        }
+      },
+      boxShadow: {
+        'glass': '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
+        'glass-sm': '0 8px 30px rgba(0, 0, 0, 0.3)',
+        'glow': '0 0 20px rgba(255, 255, 255, 0.15)',
+      },
+      animation: {
+        'mac-window-open': 'macWindowOpen 0.6s cubic-bezier(0.16, 1, 0.3, 1) forwards',
+        'mac-scale-in': 'macScaleIn 0.4s cubic-bezier(0.16, 1, 0.3, 1) forwards',
+        'mac-genie-open': 'macGenieOpen 0.55s cubic-bezier(0.2, 0.8, 0.2, 1) forwards',
+      },
+      perspective: {
+        '2000': '2000px',
+      },
+      keyframes: {
+        macWindowOpen: {
+          '0%': { opacity: '0', transform: 'scale(0.94) translateY(15px) blur(10px)' },
+          '100%': { opacity: '1', transform: 'scale(1) translateY(0) blur(0)' },
+        },
+        macScaleIn: {
+          '0%': { opacity: '0', transform: 'scale(0.96)' },
+          '100%': { opacity: '1', transform: 'scale(1)' },
+        },
+        macGenieOpen: {
+          '0%': { 
+            opacity: '0',
+            transform: 'scale(0.1, 0.05)', 
+            filter: 'blur(40px) brightness(1.5)' 
+          },
+          '40%': {
+             opacity: '1'
+          },
+          '100%': { 
+            opacity: '1', 
+            transform: 'scale(1, 1)',
+            filter: 'blur(0px) brightness(1)'
+          },
+        }
+      }
+    }
+  }
+};
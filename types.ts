@@ -8,29 +8,129 @@ export enum DayOfWeek {
   Saturday = 6,
 }
 
+export type SlotKind = 'LECTURE' | 'LAB' | 'TUTORIAL';
+
+export interface ClassSlot {
+  id: string;
+  day: DayOfWeek;
+  startTime?: string; // "HH:mm" 24-hour format
+  durationMinutes: number;
+  weight: number; // Attendance units this slot counts for (labs usually count as 2)
+  kind: SlotKind;
+}
+
+// A class outside the weekly timetable: an extra lecture, a make-up lab or a
+// weekly class moved to another day, see utils/sessions
+export interface ExtraSession {
+  id: string;
+  date: string;       // ISO YYYY-MM-DD
+  startTime?: string; // "HH:mm" 24-hour format, in the subject's time zone
+  durationMinutes: number;
+  weight: number;
+  kind: SlotKind;
+  note?: string;      // e.g. "Make-up lab"
+  movedFrom?: { date: string; slotId: string }; // The weekly class this replaces, no longer held that day
+}
+
+export type RecordStatus =
+  | 'PRESENT'
+  | 'ABSENT'
+  | 'LATE'
+  | 'CANCELLED'     // Class did not happen, excluded from total
+  | 'MEDICAL_LEAVE' // Approved leave, counts as attended up to the leave cap
+  | 'DUTY_LEAVE';
+
+export interface StatusRule {
+  countsTowardTotal: boolean;
+  credit: number;    // Attended units per held unit (0.0 to 1.0)
+  isLeave: boolean;  // Credit is limited by AppSettings.leaveCap
+}
+
 export interface AttendanceRecord {
   id: string;
   date: string; // ISO YYYY-MM-DD
-  status: 'PRESENT' | 'ABSENT';
+  status: RecordStatus;
   timestamp: number;
+  slotId?: string; // Set when the subject meets more than once on that day
+}
+
+// Marks a record as deleted so syncing can't bring back an older copy of it
+export interface RemovedRecord {
+  key: string; // Date and slot of the record, see recordKey in utils/consistency
+  removedAt: number;
 }
 
 export interface Subject {
   id: string;
   name: string;
-  attended: number;
-  total: number;
+  attended: number; // Derived from history + initial offsets, never edited directly
+  total: number;    // Derived, see utils/consistency
   schedule: DayOfWeek[];
   startDate: string; // ISO Date string YYYY-MM-DD
   endDate: string;   // ISO Date string YYYY-MM-DD
   startTime?: string; // "HH:mm" 24-hour format
+  timeZone?: string;  // IANA zone the timetable's times are in, e.g. "Asia/Kolkata"
+  slots?: ClassSlot[]; // Weekly timetable. When present, schedule/startTime are derived from it
+  sessions?: ExtraSession[]; // One-off and rescheduled classes on top of the weekly slots
+  targetPercentage?: number; // Overrides the rule profile target (0.0 to 1.0)
+  holidaySetIds?: string[]; // Holiday sets this subject observes (defaults to the built-in set)
+  semesterId?: string; // Semester this subject belongs to, see utils/semesters
+  updatedAt?: number;  // Last local edit; decides timetable conflicts when syncing devices
+  reminderLeadMinutes?: number | null; // Overrides settings.classReminderLead; null mutes its reminders and risk alerts
   history: AttendanceRecord[]; 
+  removedRecords?: RemovedRecord[]; // Records deleted on this device, kept for syncing
   initialAttended?: number; // Stores the manual count entered during creation/edit
   initialTotal?: number;    // Stores the manual total offset (e.g. for migration)
 }
 
+// A deleted subject kept in the bin until it expires, see utils/mutations
+export interface TrashEntry {
+  id: string; // Same as the subject's id
+  subject: Subject;
+  deletedAt: number;
+}
+
+export interface Semester {
+  id: string;
+  name: string;
+  startDate: string; // ISO YYYY-MM-DD
+  endDate: string;   // ISO YYYY-MM-DD
+  archivedAt?: number; // Set once archived; archived semesters are read-only
+}
+
+export interface HolidayRange {
+  id: string;
+  name: string;
+  start: string; // ISO YYYY-MM-DD
+  end: string;   // ISO YYYY-MM-DD, inclusive (equal to start for single days)
+}
+
+export interface HolidaySet {
+  id: string;
+  name: string;
+  ranges: HolidayRange[];
+  updatedAt: number;
+}
+
+export interface RuleProfile {
+  id: string;
+  name: string;
+  theoryTarget: number;     // 0.0 to 1.0
+  labTarget: number;        // Used for subjects whose slots are all labs
+  dangerMargin: number;     // Below target + margin counts as DANGER (0.0 to 1.0)
+  dangerBunks: number;      // This many bunks left or fewer counts as DANGER
+  monthlyMinimum?: number;  // Each calendar month must also meet this (0.0 to 1.0)
+}
+
 export type AttendanceStatus = 'SAFE' | 'DANGER' | 'IMPOSSIBLE';
 
+// Low/central/high estimate; pessimistic assumes more cancellations
+export interface ProjectionRange {
+  pessimistic: number;
+  expected: number;
+  optimistic: number;
+}
+
 export interface CalculationResult {
   status: AttendanceStatus;
   percentage: number;
@@ -39,9 +139,11 @@ export interface CalculationResult {
   classesHeldSoFar: number;
   classesLeftRaw: number;
   totalSemesterClasses: number;
+  totalSemesterRange: ProjectionRange;
   
   // Advice
   bunksAvailable: number; // How many can I skip and stay above Target?
+  bunksRange: ProjectionRange;
   classesToRecover: number; // How many MUST I attend consecutively?
   maxPossiblePercentage: number; // Ceiling if I attend everything
 }
@@ -51,8 +153,19 @@ export interface AppSettings {
   notificationsEnabled: boolean;
   dailyReminder: boolean;
   dailyReminderTime: string; // "HH:mm"
-  classReminders: boolean; // Remind 15 mins before class
+  classReminders: boolean; // Remind before each class
+  classReminderLead?: number; // Minutes before class, unless the subject sets its own
+  quietHours?: boolean;       // No notifications between quietHoursStart and quietHoursEnd
+  quietHoursStart?: string;   // "HH:mm"
+  quietHoursEnd?: string;     // "HH:mm", may be past midnight
+  riskAlerts?: boolean;       // Warn before a class that can't be skipped safely
+  nightlyDigest?: boolean;    // Evening summary of subjects that slipped today
+  nightlyDigestTime?: string; // "HH:mm"
   
   // Criteria
   targetPercentage: number; // 0.0 to 1.0 (e.g. 0.75 for 75%)
+  leaveCap?: number;        // Max share of held classes covered by approved leave (0.0 to 1.0)
+  lateCredit?: number;      // How much a late mark counts as attended (0.0 to 1.0)
+  ruleProfileId?: string;   // Preset id, or 'custom' for customProfile
+  customProfile?: RuleProfile;
 }
\ No newline at end of file
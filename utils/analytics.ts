@@ -0,0 +1,128 @@
+import { AppSettings, DayOfWeek, HolidaySet, Subject } from '../types';
+import { ANALYTICS_TREND_DAYS } from '../constants';
+import { getRecordWeight, getStatusRules, tallyAttendance } from './attendance';
+import { getCancellationRates } from './cancellations';
+import { getUnitsLeftFrom } from './projection';
+import { getSubjectTarget } from './rules';
+import { addDays, datesBetween, getWeekday, getSubjectToday } from './dates';
+
+export interface TimelinePoint {
+  date: string;
+  percentage: number; // 0-100, cumulative up to and including this date
+}
+
+export interface AbsenceStreaks {
+  current: number;  // Consecutive absent class days ending at the latest record
+  longest: number;
+  longestEndedOn?: string;
+}
+
+export interface WeekdayBreakdown {
+  day: DayOfWeek;
+  held: number;   // Units that counted toward the total
+  missed: number; // Units logged absent
+}
+
+export interface TargetCrossing {
+  date: string;
+  direction: 'ABOVE' | 'BELOW';
+}
+
+const byDate = <T extends { date: string }>(a: T, b: T) => a.date.localeCompare(b.date);
+
+// Cumulative percentage after each logged date, starting from the manual offsets
+export const getPercentageTimeline = (subject: Subject, settings: AppSettings): TimelinePoint[] => {
+  const dates = Array.from(new Set(subject.history.map(record => record.date))).sort();
+  return dates.flatMap(date => {
+    const { attended, total } = tallyAttendance(
+      { ...subject, history: subject.history.filter(record => record.date <= date) },
+      settings
+    );
+    return total > 0 ? [{ date, percentage: (attended / total) * 100 }] : [];
+  });
+};
+
+/**
+ * Runs of class days logged absent. Cancelled classes and approved leave
+ * neither extend nor break a run; anything attended ends it.
+ */
+export const getAbsenceStreaks = (subject: Subject, settings: AppSettings): AbsenceStreaks => {
+  const rules = getStatusRules(settings);
+  const streaks: AbsenceStreaks = { current: 0, longest: 0 };
+
+  [...subject.history].sort(byDate).forEach(record => {
+    const rule = rules[record.status] ?? rules.ABSENT;
+    if (!rule.countsTowardTotal || rule.isLeave) return;
+    if (rule.credit > 0) {
+      streaks.current = 0;
+      return;
+    }
+    streaks.current += 1;
+    if (streaks.current > streaks.longest) {
+      streaks.longest = streaks.current;
+      streaks.longestEndedOn = record.date;
+    }
+  });
+  return streaks;
+};
+
+// Held vs missed units per weekday, across all given subjects
+export const getWeekdayBreakdown = (subjects: Subject[], settings: AppSettings): WeekdayBreakdown[] => {
+  const rules = getStatusRules(settings);
+  const breakdown: WeekdayBreakdown[] = Array.from({ length: 7 }, (_, day) => ({ day, held: 0, missed: 0 }));
+
+  subjects.forEach(subject => subject.history.forEach(record => {
+    const rule = rules[record.status] ?? rules.ABSENT;
+    if (!rule.countsTowardTotal) return;
+    const weight = getRecordWeight(record, subject);
+    const row = breakdown[getWeekday(record.date)];
+    row.held += weight;
+    if (!rule.isLeave && rule.credit === 0) row.missed += weight;
+  }));
+  return breakdown;
+};
+
+/**
+ * First date the subject's percentage is expected to cross its target if the
+ * last ANALYTICS_TREND_DAYS of attendance carry on, with each future class
+ * discounted by its weekday cancellation rate. Null when it stays on the
+ * same side until the semester ends.
+ */
+export const findTargetCrossing = (
+  subject: Subject,
+  settings: AppSettings,
+  holidaySets: HolidaySet[],
+  today: string = getSubjectToday(subject)
+): TargetCrossing | null => {
+  const target = getSubjectTarget(subject, settings) * 100;
+  let { attended, total } = tallyAttendance(subject, settings);
+  if (total === 0) return null;
+
+  const windowStart = addDays(today, -ANALYTICS_TREND_DAYS);
+  const recent = tallyAttendance(
+    {
+      ...subject,
+      history: subject.history.filter(record => record.date >= windowStart),
+      initialAttended: 0,
+      initialTotal: 0,
+    },
+    settings
+  );
+  const rate = recent.total > 0 ? recent.attended / recent.total : attended / total;
+
+  const wasAbove = (attended / total) * 100 >= target;
+  if (today > subject.endDate) return null;
+
+  const { byWeekday } = getCancellationRates(subject);
+  const unitsLeft = getUnitsLeftFrom(today);
+  for (const date of datesBetween(today, subject.endDate)) {
+    const units = unitsLeft(date, subject, holidaySets);
+    if (units === 0) continue;
+    const held = units * (1 - byWeekday[getWeekday(date)]);
+    attended += held * rate;
+    total += held;
+    const isAbove = (attended / total) * 100 >= target;
+    if (isAbove !== wasAbove) return { date, direction: isAbove ? 'ABOVE' : 'BELOW' };
+  }
+  return null;
+};
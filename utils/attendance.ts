@@ -0,0 +1,64 @@
+import { AppSettings, AttendanceRecord, RecordStatus, StatusRule, Subject } from '../types';
+import { DEFAULT_LATE_CREDIT, DEFAULT_LEAVE_CAP, STATUS_RULES } from '../constants';
+import { getSubjectSlots } from './slots';
+import { getSlotsOnDate } from './sessions';
+
+export interface AttendanceTally {
+  attended: number;
+  total: number;
+  counts: Record<RecordStatus, number>; // Units logged per status
+  leaveCredited: number; // Leave units counted as attended after the cap
+}
+
+export const getStatusRules = (settings: AppSettings): Record<RecordStatus, StatusRule> => ({
+  ...STATUS_RULES,
+  LATE: { ...STATUS_RULES.LATE, credit: settings.lateCredit ?? DEFAULT_LATE_CREDIT },
+});
+
+/**
+ * Units a single record stands for: its slot's weight, or every slot held
+ * that day when the record isn't tied to a slot. The slot may be an extra
+ * session, or a weekly slot that has since been moved off that date.
+ */
+export const getRecordWeight = (record: AttendanceRecord, subject: Subject): number => {
+  const slotsOnDate = getSlotsOnDate(subject, record.date);
+  if (record.slotId) {
+    const slot = [...slotsOnDate, ...getSubjectSlots(subject)].find(s => s.id === record.slotId);
+    if (slot) return slot.weight;
+  }
+  return Math.max(1, slotsOnDate.reduce((sum, slot) => sum + slot.weight, 0));
+};
+
+/**
+ * Applies the per-status rules to a subject's history, on top of the manual
+ * initialAttended/initialTotal offsets.
+ */
+export const tallyAttendance = (subject: Subject, settings: AppSettings): AttendanceTally => {
+  const rules = getStatusRules(settings);
+  const counts: Record<RecordStatus, number> = {
+    PRESENT: 0, ABSENT: 0, LATE: 0, CANCELLED: 0, MEDICAL_LEAVE: 0, DUTY_LEAVE: 0,
+  };
+
+  let attended = subject.initialAttended ?? 0;
+  let total = subject.initialTotal ?? 0;
+  let leaveUnits = 0;
+
+  subject.history.forEach(record => {
+    const rule = rules[record.status] ?? rules.ABSENT;
+    const weight = getRecordWeight(record, subject);
+    counts[record.status] = (counts[record.status] ?? 0) + weight;
+
+    if (!rule.countsTowardTotal) return;
+    total += weight;
+    if (rule.isLeave) {
+      leaveUnits += weight * rule.credit;
+    } else {
+      attended += weight * rule.credit;
+    }
+  });
+
+  const leaveCap = settings.leaveCap ?? DEFAULT_LEAVE_CAP;
+  const leaveCredited = Math.min(leaveUnits, Math.floor(total * leaveCap));
+
+  return { attended: attended + leaveCredited, total, counts, leaveCredited };
+};
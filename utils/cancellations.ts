@@ -0,0 +1,80 @@
+import { HolidaySet, ProjectionRange, Subject } from '../types';
+import { CANCELLATION_PRIOR_UNITS, CANCELLATION_RANGE_Z, CHAOS_FACTOR } from '../constants';
+import { getRecordWeight } from './attendance';
+import { getWeekday } from './dates';
+
+export interface CancellationRates {
+  overall: number;               // Subject-wide share of units cancelled (0.0 to 1.0)
+  byWeekday: Record<number, number>;
+}
+
+export interface ClassesLeftEstimate {
+  raw: number;  // Units on the timetable, before cancellations
+  range: ProjectionRange;
+}
+
+// Blends observed cancellations with a prior worth CANCELLATION_PRIOR_UNITS units
+const smooth = (cancelled: number, logged: number, prior: number) =>
+  (cancelled + prior * CANCELLATION_PRIOR_UNITS) / (logged + CANCELLATION_PRIOR_UNITS);
+
+/**
+ * Estimates how often a subject's classes get cancelled from its logged
+ * history. Each weekday leans on the subject-wide rate until it has data of
+ * its own, which in turn starts from CHAOS_FACTOR.
+ */
+export const getCancellationRates = (subject: Subject): CancellationRates => {
+  const logged: Record<number, number> = {};
+  const cancelled: Record<number, number> = {};
+
+  subject.history.forEach(record => {
+    const day = getWeekday(record.date);
+    const weight = getRecordWeight(record, subject);
+    logged[day] = (logged[day] ?? 0) + weight;
+    if (record.status === 'CANCELLED') cancelled[day] = (cancelled[day] ?? 0) + weight;
+  });
+
+  const sum = (counts: Record<number, number>) => Object.values(counts).reduce((a, b) => a + b, 0);
+  const overall = smooth(sum(cancelled), sum(logged), 1 - CHAOS_FACTOR);
+
+  const byWeekday: Record<number, number> = {};
+  for (let day = 0; day < 7; day++) {
+    byWeekday[day] = smooth(cancelled[day] ?? 0, logged[day] ?? 0, overall);
+  }
+  return { overall, byWeekday };
+};
+
+/**
+ * Expected range of units that will actually be held on the given dates.
+ * `units` returns the timetabled units for a date (0 when there's no class).
+ * Each class day is treated as an independent draw at its weekday's rate.
+ */
+export const estimateClassesLeft = (
+  subject: Subject,
+  dates: string[],
+  units: (date: string, subject: Subject, holidaySets: HolidaySet[]) => number,
+  holidaySets: HolidaySet[]
+): ClassesLeftEstimate => {
+  const { byWeekday } = getCancellationRates(subject);
+  let raw = 0;
+  let mean = 0;
+  let variance = 0;
+
+  dates.forEach(date => {
+    const count = units(date, subject, holidaySets);
+    if (count === 0) return;
+    const rate = byWeekday[getWeekday(date)];
+    raw += count;
+    mean += count * (1 - rate);
+    variance += count * count * rate * (1 - rate);
+  });
+
+  const spread = CANCELLATION_RANGE_Z * Math.sqrt(variance);
+  return {
+    raw,
+    range: {
+      pessimistic: Math.max(0, Math.floor(mean - spread)),
+      expected: Math.floor(mean),
+      optimistic: Math.min(raw, Math.floor(mean + spread)),
+    },
+  };
+};
@@ -0,0 +1,68 @@
+import { AppSettings, AttendanceRecord, Subject } from '../types';
+import { tallyAttendance } from './attendance';
+
+export interface SubjectIssue {
+  subjectId: string;
+  subjectName: string;
+  stored: { attended: number; total: number };
+  derived: { attended: number; total: number };
+  duplicateRecords: number;
+}
+
+// How to resolve a mismatch: recompute from history, or keep the stored
+// counters by folding the difference into the initial offsets.
+export type RepairStrategy = 'HISTORY' | 'COUNTS';
+
+// Identifies the class a record is for: its date and, when it has one, its slot
+export const recordKey = (record: AttendanceRecord) => `${record.date}|${record.slotId ?? ''}`;
+
+// Keeps the newest record per date/slot
+export const dedupeHistory = (history: AttendanceRecord[]): AttendanceRecord[] => {
+  const latest = new Map<string, AttendanceRecord>();
+  history.forEach(record => {
+    const existing = latest.get(recordKey(record));
+    if (!existing || record.timestamp > existing.timestamp) {
+      latest.set(recordKey(record), record);
+    }
+  });
+  return history.filter(record => latest.get(recordKey(record)) === record);
+};
+
+export const deriveCounts = (subject: Subject, settings: AppSettings) => {
+  const { attended, total } = tallyAttendance(subject, settings);
+  return { attended, total };
+};
+
+/**
+ * `attended` and `total` are a cache of the history tally. Every mutation
+ * goes through here so the cache never drifts from the records.
+ */
+export const withDerivedCounts = (subject: Subject, settings: AppSettings): Subject => ({
+  ...subject,
+  ...deriveCounts(subject, settings),
+});
+
+export const findSubjectIssues = (subjects: Subject[], settings: AppSettings): SubjectIssue[] =>
+  subjects.flatMap(subject => {
+    const derived = deriveCounts(subject, settings);
+    const stored = { attended: subject.attended, total: subject.total };
+    const duplicateRecords = subject.history.length - dedupeHistory(subject.history).length;
+    const countsMatch = stored.attended === derived.attended && stored.total === derived.total;
+
+    if (countsMatch && duplicateRecords === 0) return [];
+    return [{ subjectId: subject.id, subjectName: subject.name, stored, derived, duplicateRecords }];
+  });
+
+export const repairSubject = (subject: Subject, settings: AppSettings, strategy: RepairStrategy): Subject => {
+  const deduped = { ...subject, history: dedupeHistory(subject.history) };
+  if (strategy === 'HISTORY') {
+    return withDerivedCounts(deduped, settings);
+  }
+
+  const derived = deriveCounts(deduped, settings);
+  return withDerivedCounts({
+    ...deduped,
+    initialAttended: (deduped.initialAttended ?? 0) + subject.attended - derived.attended,
+    initialTotal: (deduped.initialTotal ?? 0) + subject.total - derived.total,
+  }, settings);
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addDays, datesBetween, getSubjectToday, getTodayIn, getWeekday, getZonedParts, isValidTimeZone, timeToMinutes,
+  zonedTimeToEpoch,
+} from './dates';
+
+const utc = (iso: string) => Date.parse(iso);
+
+describe('date arithmetic', () => {
+  it('adds days across month, year and leap-day boundaries', () => {
+    expect(addDays('2026-01-31', 1)).toBe('2026-02-01');
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+    expect(addDays('2028-02-28', 1)).toBe('2028-02-29');
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+  });
+
+  it('is not shifted by a DST change', () => {
+    // Clocks go forward in the US on 2026-03-08 and in the EU on 2026-03-29
+    expect(addDays('2026-03-07', 1)).toBe('2026-03-08');
+    expect(addDays('2026-03-08', 1)).toBe('2026-03-09');
+    expect(datesBetween('2026-03-28', '2026-03-30')).toEqual(['2026-03-28', '2026-03-29', '2026-03-30']);
+  });
+
+  it('includes both ends of a range', () => {
+    expect(datesBetween('2026-01-05', '2026-01-05')).toEqual(['2026-01-05']);
+    expect(datesBetween('2026-01-06', '2026-01-05')).toEqual([]);
+  });
+
+  it('reads the weekday of a calendar date', () => {
+    expect(getWeekday('2026-01-05')).toBe(1);
+    expect(getWeekday('2026-01-04')).toBe(0);
+  });
+
+  it('turns times into minutes past midnight', () => {
+    expect(timeToMinutes('00:00')).toBe(0);
+    expect(timeToMinutes('09:30')).toBe(570);
+    expect(timeToMinutes('23:59')).toBe(1439);
+  });
+});
+
+describe('time zones', () => {
+  it('validates IANA zone names', () => {
+    expect(isValidTimeZone('Asia/Kolkata')).toBe(true);
+    expect(isValidTimeZone('Not/AZone')).toBe(false);
+  });
+
+  it("gives each zone's own calendar day for the same instant", () => {
+    const now = utc('2026-01-05T20:00:00Z');
+    expect(getTodayIn('Asia/Kolkata', now)).toBe('2026-01-06');
+    expect(getTodayIn('America/Los_Angeles', now)).toBe('2026-01-05');
+    expect(getSubjectToday({ timeZone: 'Pacific/Auckland' }, now)).toBe('2026-01-06');
+  });
+
+  it('finds the instant a wall-clock time occurs in a zone', () => {
+    expect(zonedTimeToEpoch('2026-01-05', 9 * 60, 'Asia/Kolkata')).toBe(utc('2026-01-05T03:30:00Z'));
+    expect(zonedTimeToEpoch('2026-07-01', 9 * 60, 'Europe/London')).toBe(utc('2026-07-01T08:00:00Z'));
+    expect(zonedTimeToEpoch('2026-01-05', 0, 'UTC')).toBe(utc('2026-01-05T00:00:00Z'));
+  });
+
+  it('moves a time skipped by spring-forward on by the gap', () => {
+    // 02:30 doesn't exist in New York on 2026-03-08; 03:30 EDT does
+    expect(zonedTimeToEpoch('2026-03-08', 2 * 60 + 30, 'America/New_York')).toBe(utc('2026-03-08T07:30:00Z'));
+  });
+
+  it('resolves a time repeated by fall-back to its first occurrence', () => {
+    // 01:30 happens twice in New York on 2026-11-01; the first is still EDT
+    expect(zonedTimeToEpoch('2026-11-01', 60 + 30, 'America/New_York')).toBe(utc('2026-11-01T05:30:00Z'));
+  });
+
+  it('round-trips through getZonedParts', () => {
+    const epoch = zonedTimeToEpoch('2026-10-25', 10 * 60, 'Europe/Berlin');
+    expect(getZonedParts(epoch, 'Europe/Berlin')).toEqual({ date: '2026-10-25', minutes: 600 });
+  });
+});
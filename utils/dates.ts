@@ -0,0 +1,142 @@
+import { DayOfWeek, Subject } from '../types';
+
+// Helpers for the bare "YYYY-MM-DD" and "HH:mm" strings stored on subjects.
+//
+// A date string is a calendar day with no zone attached. Arithmetic on it
+// runs in UTC, so it never depends on the device's zone or DST. A date
+// only meets a zone when it is turned into an instant (zonedTimeToEpoch)
+// or when "today" is asked for (getTodayIn); both take an IANA zone,
+// normally the subject's own (getSubjectTimeZone).
+
+// Shape checks for stored and imported strings; they don't validate the calendar
+export const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+export const TIME_OF_DAY = /^\d{2}:\d{2}$/;
+
+const toUTCDate = (dateStr: string): Date => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+const fromUTCDate = (date: Date): string => {
+  const y = date.getUTCFullYear();
+  const m = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const d = String(date.getUTCDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+// Local midnight of the date, for display with toLocaleDateString
+export const parseISODate = (dateStr: string): Date => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// The device-local calendar date of a Date
+export const formatISODate = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+export const addDays = (dateStr: string, days: number): string => {
+  const date = toUTCDate(dateStr);
+  date.setUTCDate(date.getUTCDate() + days);
+  return fromUTCDate(date);
+};
+
+export const getWeekday = (dateStr: string): DayOfWeek => toUTCDate(dateStr).getUTCDay();
+
+// Inclusive list of dates between two ISO strings (empty if from > to)
+export const datesBetween = (from: string, to: string): string[] => {
+  const dates: string[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    dates.push(d);
+  }
+  return dates;
+};
+
+export const timeToMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// --- Time zones ---
+
+export const getDeviceTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Subjects saved without a zone follow the device
+export const getSubjectTimeZone = (subject: Pick<Subject, 'timeZone'>): string =>
+  subject.timeZone && isValidTimeZone(subject.timeZone) ? subject.timeZone : getDeviceTimeZone();
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const getWallClock = (epochMs: number, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(new Date(epochMs)).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return parts as Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>;
+};
+
+// The calendar date and minutes past midnight an instant shows in a zone
+export const getZonedParts = (epochMs: number, timeZone: string): { date: string; minutes: number } => {
+  const { year, month, day, hour, minute } = getWallClock(epochMs, timeZone);
+  const date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return { date, minutes: hour * 60 + minute };
+};
+
+export const getTodayIn = (timeZone: string = getDeviceTimeZone(), now: number = Date.now()): string =>
+  getZonedParts(now, timeZone).date;
+
+export const getSubjectToday = (subject: Pick<Subject, 'timeZone'>, now: number = Date.now()): string =>
+  getTodayIn(getSubjectTimeZone(subject), now);
+
+// Milliseconds the zone's wall clock is ahead of UTC at an instant
+const getOffsetMs = (epochMs: number, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = getWallClock(epochMs, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(epochMs / 1000) * 1000;
+};
+
+/**
+ * The instant a wall-clock time occurs on a date in a zone. Across a DST
+ * change an hour that happens twice resolves to the first one, and a time
+ * skipped by a spring-forward gap moves forward by the gap's length.
+ */
+export const zonedTimeToEpoch = (dateStr: string, minutes: number, timeZone: string): number => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  const wall = Date.UTC(y, m - 1, d, 0, minutes);
+  const first = wall - getOffsetMs(wall, timeZone);
+  const second = wall - getOffsetMs(first, timeZone);
+  if (first === second) return first;
+
+  const exact = [first, second].filter(epoch => epoch + getOffsetMs(epoch, timeZone) === wall);
+  return exact.length > 0 ? Math.min(...exact) : Math.max(first, second);
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { AttendanceRecord, ClassSlot, Subject } from '../types';
+import { logClass, logDay, unlogClass } from './dayLog';
+
+// 2026-01-05 is a Monday
+const MONDAY = '2026-01-05';
+
+const slot = (id: string, startTime: string): ClassSlot =>
+  ({ id, day: 1, startTime, durationMinutes: 60, weight: 1, kind: 'LECTURE' });
+
+const [nine, eleven] = [slot('mon-9', '09:00'), slot('mon-11', '11:00')];
+
+const record = (status: AttendanceRecord['status'], slotId?: string): AttendanceRecord => ({
+  id: `${MONDAY}-${slotId ?? 'day'}`,
+  date: MONDAY,
+  status,
+  timestamp: 1,
+  ...(slotId ? { slotId } : {}),
+});
+
+const makeSubject = (history: AttendanceRecord[]): Subject => ({
+  id: 'physics',
+  name: 'Physics',
+  attended: 0,
+  total: 0,
+  schedule: [1],
+  startDate: MONDAY,
+  endDate: MONDAY,
+  timeZone: 'UTC',
+  slots: [nine, eleven],
+  holidaySetIds: [],
+  history,
+});
+
+const statuses = (subject: Subject) =>
+  Object.fromEntries(subject.history.map(r => [r.slotId ?? 'day', r.status]));
+
+describe('logDay', () => {
+  it('only marks classes that have nothing logged', () => {
+    const [changed] = logDay([makeSubject([record('CANCELLED', 'mon-9')])], [], MONDAY, 'PRESENT');
+    expect(statuses(changed)).toEqual({ 'mon-9': 'CANCELLED', 'mon-11': 'PRESENT' });
+  });
+
+  it('changes nothing on a day that is fully logged', () => {
+    expect(logDay([makeSubject([record('ABSENT')])], [], MONDAY, 'PRESENT')).toEqual([]);
+  });
+});
+
+describe('per-class changes on a whole-day record', () => {
+  it('split the record so the other classes keep their status', () => {
+    const logged = logClass(makeSubject([record('PRESENT')]), MONDAY, eleven, 'ABSENT');
+    expect(statuses(logged)).toEqual({ 'mon-9': 'PRESENT', 'mon-11': 'ABSENT' });
+    expect(logged.removedRecords?.map(r => r.key)).toEqual([`${MONDAY}|`]);
+
+    const unlogged = unlogClass(makeSubject([record('PRESENT')]), MONDAY, nine);
+    expect(statuses(unlogged)).toEqual({ 'mon-11': 'PRESENT' });
+  });
+});
+
+describe('unlogClass', () => {
+  it('leaves a removal marker for the record', () => {
+    const subject = unlogClass(makeSubject([record('PRESENT', 'mon-9')]), MONDAY, nine);
+    expect(subject.history).toEqual([]);
+    expect(subject.removedRecords?.map(r => r.key)).toEqual([`${MONDAY}|mon-9`]);
+  });
+});
@@ -0,0 +1,114 @@
+import { AttendanceRecord, ClassSlot, ExtraSession, HolidaySet, RecordStatus, Subject } from '../types';
+import { getSlotsOnDate } from './sessions';
+import { findSlotRecord, getScheduledSubjects, getSlotsHeldOn } from './projection';
+import { timeToMinutes } from './dates';
+import { createId } from './ids';
+import { recordKey } from './consistency';
+
+export interface DayClass {
+  subject: Subject;
+  slot: ClassSlot;
+  record?: AttendanceRecord; // Already logged for this class
+  session?: ExtraSession;    // Set for extra and rescheduled classes
+}
+
+const byStartTime = (a: DayClass, b: DayClass) => {
+  if (!a.slot.startTime) return b.slot.startTime ? 1 : 0;
+  if (!b.slot.startTime) return -1;
+  return timeToMinutes(a.slot.startTime) - timeToMinutes(b.slot.startTime);
+};
+
+// Every class held on a date across subjects, in start-time order (untimed last)
+export const getClassesOnDate = (subjects: Subject[], holidaySets: HolidaySet[], date: string): DayClass[] =>
+  getScheduledSubjects(date, subjects, holidaySets)
+    .flatMap(subject => getSlotsHeldOn(date, subject, holidaySets).map(slot => ({
+      subject,
+      slot,
+      record: findSlotRecord(subject, date, slot),
+      session: subject.sessions?.find(session => session.id === slot.id),
+    })))
+    .sort(byStartTime);
+
+// Drops a record, leaving a removal marker so a synced device can't restore it
+const removeRecord = (subject: Subject, removed: AttendanceRecord, now: number): Subject => {
+  const key = recordKey(removed);
+  return {
+    ...subject,
+    history: subject.history.filter(record => record !== removed),
+    removedRecords: [
+      ...(subject.removedRecords ?? []).filter(marker => marker.key !== key),
+      { key, removedAt: Math.max(now, removed.timestamp) },
+    ],
+  };
+};
+
+/**
+ * A record without a slot covers every class that day. Before one of those
+ * classes is changed on its own, the record is replaced by one per class
+ * with the same status.
+ */
+const splitDayRecord = (subject: Subject, date: string, slot: ClassSlot): Subject => {
+  const existing = findSlotRecord(subject, date, slot);
+  const slots = getSlotsOnDate(subject, date);
+  if (!existing || existing.slotId || slots.length <= 1) return subject;
+
+  const now = Date.now();
+  const split = removeRecord(subject, existing, now);
+  const perSlot = slots.map((daySlot): AttendanceRecord => ({
+    id: createId('record'),
+    date,
+    status: existing.status,
+    timestamp: now,
+    slotId: daySlot.id,
+  }));
+  return { ...split, history: [...split.history, ...perSlot] };
+};
+
+/**
+ * Logs one class, updating the existing record instead of adding a second
+ * one so a class can never be counted twice for the same date.
+ */
+export const logClass = (target: Subject, date: string, slot: ClassSlot, status: RecordStatus): Subject => {
+  const subject = splitDayRecord(target, date, slot);
+  const existing = findSlotRecord(subject, date, slot);
+  if (existing) {
+    return {
+      ...subject,
+      history: subject.history.map(record =>
+        record === existing ? { ...record, status, timestamp: Date.now() } : record
+      ),
+    };
+  }
+
+  const meetsOnce = getSlotsOnDate(subject, date).length <= 1;
+  const record: AttendanceRecord = {
+    id: createId('record'),
+    date,
+    status,
+    timestamp: Date.now(),
+    ...(meetsOnce ? {} : { slotId: slot.id }),
+  };
+  return { ...subject, history: [...subject.history, record] };
+};
+
+export const unlogClass = (target: Subject, date: string, slot: ClassSlot): Subject => {
+  const subject = splitDayRecord(target, date, slot);
+  const existing = findSlotRecord(subject, date, slot);
+  return existing ? removeRecord(subject, existing, Date.now()) : subject;
+};
+
+// Marks every class on a date that isn't logged yet with one status; returns only the subjects that changed
+export const logDay = (
+  subjects: Subject[],
+  holidaySets: HolidaySet[],
+  date: string,
+  status: RecordStatus
+): Subject[] => {
+  const changed = new Map<string, Subject>();
+  getClassesOnDate(subjects, holidaySets, date).forEach(({ subject, slot, record }) => {
+    if (record) return;
+    const current = changed.get(subject.id) ?? subject;
+    changed.set(subject.id, logClass(current, date, slot, status));
+  });
+  return Array.from(changed.values());
+};
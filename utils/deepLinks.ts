@@ -0,0 +1,49 @@
+import { RecordStatus } from '../types';
+import { STATUS_RULES } from '../constants';
+import { ISO_DATE } from './dates';
+
+/**
+ * URL query links into the app, for manifest shortcuts, bookmarks and
+ * widgets:
+ *   ?view=calendar&date=2026-10-19   open a view (the calendar's day log on a date)
+ *   ?view=today                      the compact today summary, stays in the URL
+ *   ?mark=<subjectId>&status=PRESENT mark a class, after the user confirms
+ * A mark may also carry &date=; without one it means the subject's today.
+ */
+
+export type AppView = 'dashboard' | 'calendar' | 'analytics' | 'settings';
+
+export type DeepLink =
+  | { kind: 'view'; view: AppView; date?: string }
+  | { kind: 'today' }
+  | { kind: 'mark'; subjectId: string; status: RecordStatus; date?: string };
+
+const VIEWS: AppView[] = ['dashboard', 'calendar', 'analytics', 'settings'];
+const LINK_PARAMS = ['view', 'date', 'mark', 'status'];
+
+const isStatus = (value: string): value is RecordStatus => Object.prototype.hasOwnProperty.call(STATUS_RULES, value);
+
+// Unknown views, statuses or malformed dates make the whole link invalid (null)
+export const parseDeepLink = (search: string): DeepLink | null => {
+  const params = new URLSearchParams(search);
+  const date = params.get('date') ?? undefined;
+  if (date !== undefined && !ISO_DATE.test(date)) return null;
+
+  const subjectId = params.get('mark');
+  if (subjectId) {
+    const status = (params.get('status') ?? 'PRESENT').toUpperCase();
+    return isStatus(status) ? { kind: 'mark', subjectId, status, date } : null;
+  }
+
+  const view = params.get('view');
+  if (view === 'today') return { kind: 'today' };
+  if (view && (VIEWS as string[]).includes(view)) return { kind: 'view', view: view as AppView, date };
+  return null;
+};
+
+// Drops the link's parameters once handled, keeping any others (e.g. ?safe)
+export const clearDeepLink = () => {
+  const url = new URL(window.location.href);
+  LINK_PARAMS.forEach(param => url.searchParams.delete(param));
+  window.history.replaceState(null, '', url.pathname + url.search + url.hash);
+};
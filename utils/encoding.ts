@@ -0,0 +1,28 @@
+// Byte helpers shared by sync bundles and template links. Byte data is
+// passed around as ArrayBuffer, which every Web Crypto and Blob API accepts.
+
+export const toBase64 = (buffer: ArrayBuffer): string => {
+  let binary = '';
+  new Uint8Array(buffer).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string): ArrayBuffer => Uint8Array.from(atob(text), char => char.charCodeAt(0)).buffer;
+
+// URL-safe base64 without padding, so a URL fragment needs no escaping
+export const toBase64Url = (buffer: ArrayBuffer): string =>
+  toBase64(buffer).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const fromBase64Url = (text: string): ArrayBuffer => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return fromBase64(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+};
+
+export const canCompress = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const pipeThrough = (buffer: ArrayBuffer, stream: CompressionStream | DecompressionStream): Promise<ArrayBuffer> =>
+  new Response(new Blob([buffer]).stream().pipeThrough(stream)).arrayBuffer();
+
+// Raw deflate; check canCompress first
+export const compress = (buffer: ArrayBuffer) => pipeThrough(buffer, new CompressionStream('deflate-raw'));
+export const decompress = (buffer: ArrayBuffer) => pipeThrough(buffer, new DecompressionStream('deflate-raw'));
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { HolidaySet, Subject } from '../types';
+import { getLocalISOString, getSubjectsForDate, isEventDay } from './engine';
+
+// 2026-01-05 is a Monday
+const MONDAY = '2026-01-05';
+
+const makeSubject = (id: string, day: number, overrides: Partial<Subject> = {}): Subject => ({
+  id,
+  name: id,
+  attended: 0,
+  total: 0,
+  schedule: [],
+  startDate: MONDAY,
+  endDate: '2026-01-18',
+  timeZone: 'UTC',
+  slots: [{ id: `${id}-slot`, day, startTime: '09:00', durationMinutes: 60, weight: 1, kind: 'LECTURE' }],
+  holidaySetIds: ['campus'],
+  history: [],
+  ...overrides,
+});
+
+const holidays: HolidaySet[] = [{
+  id: 'campus',
+  name: 'Campus',
+  ranges: [{ id: 'h', name: 'Holiday', start: '2026-01-12', end: '2026-01-12' }],
+  updatedAt: 0,
+}];
+
+describe('isEventDay', () => {
+  it('is true on a slot day inside the semester', () => {
+    expect(isEventDay(MONDAY, makeSubject('physics', 1), holidays)).toBe(true);
+  });
+
+  it('is false off the timetable, outside the semester and on holidays', () => {
+    const subject = makeSubject('physics', 1);
+    expect(isEventDay('2026-01-06', subject, holidays)).toBe(false);
+    expect(isEventDay('2025-12-29', subject, holidays)).toBe(false);
+    expect(isEventDay('2026-01-12', subject, holidays)).toBe(false);
+  });
+});
+
+describe('getSubjectsForDate', () => {
+  it('returns the subjects that meet on a date, in their original order', () => {
+    const subjects = [makeSubject('physics', 1), makeSubject('chemistry', 2), makeSubject('maths', 1)];
+    expect(getSubjectsForDate(MONDAY, subjects, holidays).map(s => s.id)).toEqual(['physics', 'maths']);
+    expect(getSubjectsForDate('2026-01-12', subjects, holidays)).toEqual([]);
+  });
+});
+
+describe('getLocalISOString', () => {
+  it('gives the local calendar date on either side of midnight', () => {
+    expect(getLocalISOString(new Date(2026, 0, 5, 23, 59, 59, 999))).toBe('2026-01-05');
+    expect(getLocalISOString(new Date(2026, 0, 6, 0, 0, 0, 0))).toBe('2026-01-06');
+  });
+
+  it('rolls over months and years at local midnight', () => {
+    expect(getLocalISOString(new Date(2026, 0, 31, 23, 59))).toBe('2026-01-31');
+    expect(getLocalISOString(new Date(2026, 1, 1, 0, 0))).toBe('2026-02-01');
+    expect(getLocalISOString(new Date(2026, 11, 31, 23, 59))).toBe('2026-12-31');
+    expect(getLocalISOString(new Date(2027, 0, 1, 0, 0))).toBe('2027-01-01');
+  });
+});
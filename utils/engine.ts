@@ -0,0 +1,87 @@
+/**
+ * SmartSkip attendance engine: the public API for everything that turns
+ * subjects and their history into numbers.
+ *
+ * Everything exported here is a pure function of its arguments. Nothing
+ * imports React, touches storage or reads the clock unless it's given a
+ * default `today`/`now`, so any caller can pass a fixed date. Conventions:
+ *
+ * - Dates are "YYYY-MM-DD" calendar days and times are "HH:mm" wall-clock
+ *   times in the subject's IANA time zone (Subject.timeZone, falling back
+ *   to the device's). Date arithmetic runs in UTC so it never shifts a day
+ *   across zones or DST changes; only getTodayIn/getSubjectToday and
+ *   zonedTimeToEpoch involve a zone, and they take it explicitly.
+ * - "today" defaults to the subject's own calendar day (getSubjectToday).
+ * - Percentages in results are 0-100; targets and rates are 0.0-1.0.
+ * - Date ranges (semesters, holidays, datesBetween) are inclusive at both
+ *   ends.
+ *
+ * Main entry points:
+ *   isEventDay / isClassDay   does a subject meet on a date (bounds, slots, sessions, holidays)
+ *   getSlotsHeldOn            the classes a subject holds on a date, extra sessions included
+ *   getSubjectsForDate        subjects meeting on a date
+ *   tallyAttendance           attended/total after status rules and leave cap
+ *   projectAttendance         status, bunks and recovery to the end of the semester
+ *   simulateSkips             the same projection after skipping chosen days
+ *   getClassesToRecover       consecutive classes needed to get back to a target
+ *
+ * Status classification (see classifyStatus):
+ *   IMPOSSIBLE  even attending every remaining class can't reach the target
+ *   DANGER      below target + the profile's margin, too few bunks left, or
+ *               under the profile's monthly minimum
+ *   SAFE        otherwise
+ */
+
+import { HolidaySet, Subject } from '../types';
+import { getScheduledSubjects, isClassDay } from './projection';
+import { formatISODate } from './dates';
+
+export {
+  isClassDay,
+  getScheduledSubjects,
+  getSlotsHeldOn,
+  getUnloggedSlotsOn,
+  findSlotRecord,
+  getUnitsOnDate,
+  getUnitsLeftFrom,
+  countUnitsBetween,
+  getClassesToRecover,
+  projectAttendance,
+} from './projection';
+export type { ClassDayCheck } from './projection';
+export { tallyAttendance, getStatusRules, getRecordWeight } from './attendance';
+export type { AttendanceTally } from './attendance';
+export { getActiveProfile, getSubjectTarget, getMonthlyPercentage, classifyStatus, isLabSubject } from './rules';
+export type { StatusInputs } from './rules';
+export { getCancellationRates, estimateClassesLeft } from './cancellations';
+export type { CancellationRates, ClassesLeftEstimate } from './cancellations';
+export { simulateSkips } from './whatIf';
+export type { WhatIfResult } from './whatIf';
+export { getSubjectSlots, getSlotsForDay, getUnitsForDay } from './slots';
+export { getSlotsOnDate, getSessionsOnDate } from './sessions';
+export { findHoliday, getSubjectHolidaySets, isHolidayFor } from './holidays';
+export {
+  parseISODate,
+  formatISODate,
+  addDays,
+  datesBetween,
+  getWeekday,
+  timeToMinutes,
+  getDeviceTimeZone,
+  getSubjectTimeZone,
+  getTodayIn,
+  getSubjectToday,
+  getZonedParts,
+  zonedTimeToEpoch,
+} from './dates';
+
+// --- Names kept from utils/calculations ---
+
+export const isEventDay = (dateStr: string, subject: Subject, holidaySets: HolidaySet[]): boolean =>
+  isClassDay(dateStr, subject, holidaySets).isValid;
+
+export const getSubjectsForDate = (dateStr: string, subjects: Subject[], holidaySets: HolidaySet[]): Subject[] =>
+  getScheduledSubjects(dateStr, subjects, holidaySets);
+
+// Local calendar date, not the UTC date toISOString() would give
+export const getLocalISOString = (date: Date = new Date()): string => formatISODate(date);
@@ -0,0 +1,161 @@
+import { AppSettings, DayOfWeek, HolidaySet, ProjectionRange, Subject } from '../types';
+import { STATUS_LABELS } from '../constants';
+import { getSlotsHeldOn, projectAttendance } from './projection';
+import { tallyAttendance } from './attendance';
+import { getActiveProfile, getSubjectTarget } from './rules';
+import { datesBetween, getSubjectTimeZone, getTodayIn, getWeekday, timeToMinutes, zonedTimeToEpoch } from './dates';
+
+// --- iCalendar ---
+
+const escapeICS = (value: string) => value.replace(/([,;\\])/g, '\\$1').replace(/\n/g, '\\n');
+
+// Long lines are folded with a leading space (RFC 5545 3.1)
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 73) {
+    parts.push((i === 0 ? '' : ' ') + line.slice(i, i + 73));
+  }
+  return parts.join('\r\n');
+};
+
+const toICSDate = (dateStr: string) => dateStr.replace(/-/g, '');
+
+// UTC form, e.g. 20260914T033000Z
+const toICSTimestamp = (epochMs: number) => new Date(epochMs).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Upcoming classes as an .ics calendar, one event per slot occurrence.
+ * Holidays and each subject's start/end dates are respected. Times are
+ * written in UTC from each subject's time zone, so calendar apps place
+ * them correctly wherever the device is.
+ */
+export const buildScheduleICS = (subjects: Subject[], holidaySets: HolidaySet[], from: string = getTodayIn()): string => {
+  const stamp = toICSTimestamp(Date.now());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//SmartSkip//Attendance OS//EN', 'CALSCALE:GREGORIAN'];
+
+  subjects.forEach(subject => {
+    const timeZone = getSubjectTimeZone(subject);
+    const start = from > subject.startDate ? from : subject.startDate;
+    datesBetween(start, subject.endDate).forEach(date => {
+      getSlotsHeldOn(date, subject, holidaySets).forEach(slot => {
+        lines.push('BEGIN:VEVENT', `UID:${subject.id}-${slot.id}-${date}@smartskip`, `DTSTAMP:${stamp}`);
+        if (slot.startTime) {
+          const startsAt = zonedTimeToEpoch(date, timeToMinutes(slot.startTime), timeZone);
+          lines.push(
+            `DTSTART:${toICSTimestamp(startsAt)}`,
+            `DTEND:${toICSTimestamp(startsAt + slot.durationMinutes * 60 * 1000)}`
+          );
+        } else {
+          lines.push(`DTSTART;VALUE=DATE:${toICSDate(date)}`);
+        }
+        lines.push(`SUMMARY:${escapeICS(slot.kind === 'LAB' ? `${subject.name} (Lab)` : subject.name)}`, 'END:VEVENT');
+      });
+    });
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// --- CSV ---
+
+const escapeCSV = (value: string | number) => {
+  const str = String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const buildHistoryCSV = (subjects: Subject[]): string => {
+  const rows: (string | number)[][] = [['Subject', 'Date', 'Weekday', 'Status', 'Slot', 'Logged At']];
+
+  subjects.forEach(subject => {
+    [...subject.history]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .forEach(record => {
+        const slot = subject.slots?.find(s => s.id === record.slotId);
+        rows.push([
+          subject.name,
+          record.date,
+          DayOfWeek[getWeekday(record.date)],
+          STATUS_LABELS[record.status] ?? record.status,
+          slot?.startTime ?? '',
+          new Date(record.timestamp).toISOString(),
+        ]);
+      });
+  });
+
+  return rows.map(row => row.map(escapeCSV).join(',')).join('\r\n') + '\r\n';
+};
+
+// --- Printable report ---
+
+const escapeHTML = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatPct = (value: number) => `${value.toFixed(1)}%`;
+const formatRange = ({ pessimistic, optimistic }: ProjectionRange) =>
+  pessimistic === optimistic ? '' : `${pessimistic}–${optimistic}`;
+
+/**
+ * Standalone HTML semester report, styled for printing. Lists each subject's
+ * projection next to its logged status breakdown.
+ */
+export const buildReportHTML = (
+  subjects: Subject[],
+  settings: AppSettings,
+  holidaySets: HolidaySet[],
+  today: string = getTodayIn()
+): string => {
+  const rows = subjects.map(subject => {
+    const result = projectAttendance(subject, settings, holidaySets, today);
+    const { attended, total, counts } = tallyAttendance(subject, settings);
+    const breakdown = (Object.keys(counts) as (keyof typeof counts)[])
+      .filter(status => counts[status] > 0)
+      .map(status => `${STATUS_LABELS[status]}: ${counts[status]}`)
+      .join(', ');
+
+    return `
+      <tr>
+        <td><strong>${escapeHTML(subject.name)}</strong><br><small>${subject.startDate} – ${subject.endDate}</small></td>
+        <td>${Math.round(getSubjectTarget(subject, settings) * 100)}%</td>
+        <td>${attended} / ${total}</td>
+        <td>${formatPct(result.percentage)}</td>
+        <td class="status ${result.status.toLowerCase()}">${result.status}</td>
+        <td>${result.bunksAvailable}<br><small>${formatRange(result.bunksRange)}</small></td>
+        <td>${Number.isFinite(result.classesToRecover) ? result.classesToRecover : '—'}</td>
+        <td>${formatPct(result.maxPossiblePercentage)}</td>
+        <td><small>${escapeHTML(breakdown || 'No records')}</small></td>
+      </tr>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>SmartSkip Attendance Report – ${today}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Inter, sans-serif; color: #111; margin: 32px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  p.meta { color: #555; font-size: 12px; margin: 0 0 20px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f3f3f3; }
+  small { color: #666; }
+  .status.safe { color: #1a7f37; }
+  .status.danger { color: #b35900; }
+  .status.impossible { color: #c62828; }
+  @media print { body { margin: 12mm; } }
+</style>
+</head>
+<body>
+<h1>Attendance Report</h1>
+<p class="meta">Generated ${today} · Rules: ${escapeHTML(getActiveProfile(settings).name)}</p>
+<table>
+  <thead>
+    <tr><th>Subject</th><th>Target</th><th>Attended</th><th>Percentage</th><th>Status</th><th>Bunks Available</th><th>Classes to Recover</th><th>Max Possible</th><th>Breakdown</th></tr>
+  </thead>
+  <tbody>${rows}
+  </tbody>
+</table>
+</body>
+</html>`;
+};
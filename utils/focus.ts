@@ -0,0 +1,71 @@
+import { RefObject, useEffect, useRef } from 'react';
+
+// Keyboard focus helpers shared by the dialogs and the command palette
+
+const FOCUSABLE = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
+export const getFocusable = (container: HTMLElement): HTMLElement[] =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(el => !el.closest('[hidden]'));
+
+// Puts focus back where it was when `active` turns false (or on unmount)
+export const useRestoreFocus = (active: boolean) => {
+  const previous = useRef<HTMLElement | null>(null);
+  useEffect(() => {
+    if (!active) return;
+    previous.current = document.activeElement as HTMLElement | null;
+    return () => {
+      const target = previous.current;
+      if (target && document.contains(target)) target.focus();
+    };
+  }, [active]);
+};
+
+/**
+ * Modal dialog focus: moves focus inside when opened, keeps Tab cycling
+ * within the dialog, closes on Escape and restores focus on close.
+ */
+export const useDialogFocus = (containerRef: RefObject<HTMLElement>, active: boolean, onClose: () => void) => {
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+  useRestoreFocus(active);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!active || !container) return;
+    if (!container.contains(document.activeElement)) {
+      (container.querySelector<HTMLElement>('[data-autofocus]:not([disabled])') ?? getFocusable(container)[0] ?? container).focus();
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+      const focusable = getFocusable(container);
+      if (focusable.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [active, containerRef]);
+};
@@ -0,0 +1,66 @@
+import { HolidayRange, HolidaySet, Subject } from '../types';
+import { DEFAULT_HOLIDAYS, DEFAULT_HOLIDAY_SET_ID } from '../constants';
+import { parseICS } from './ical';
+import { createId } from './ids';
+
+export const createHolidayRange = (name: string, start: string, end: string = start): HolidayRange => ({
+  id: createId('holiday'),
+  name,
+  start,
+  end: end < start ? start : end,
+});
+
+export const createHolidaySet = (name: string, ranges: HolidayRange[] = []): HolidaySet => ({
+  id: createId('holidays'),
+  name,
+  ranges: sortRanges(ranges),
+  updatedAt: Date.now(),
+});
+
+// The id stays fixed so subjects keep pointing at it; updatedAt 0 marks it as never edited
+export const getDefaultHolidaySet = (): HolidaySet => ({
+  id: DEFAULT_HOLIDAY_SET_ID,
+  name: 'India Gazetted Holidays',
+  ranges: DEFAULT_HOLIDAYS.map((h, i) => ({ id: `${DEFAULT_HOLIDAY_SET_ID}-${i}`, name: h.name, start: h.date, end: h.date })),
+  updatedAt: 0,
+});
+
+export const sortRanges = (ranges: HolidayRange[]): HolidayRange[] =>
+  [...ranges].sort((a, b) => a.start.localeCompare(b.start));
+
+/**
+ * Builds a holiday set from an .ics file. Multi-day events become ranges;
+ * timed events block the whole day they fall on.
+ */
+export const holidaySetFromICS = (name: string, icsText: string): HolidaySet => {
+  const ranges = parseICS(icsText).map(event => createHolidayRange(event.summary, event.start, event.end));
+  if (ranges.length === 0) {
+    throw new Error('No events found in calendar file');
+  }
+  return createHolidaySet(name, ranges);
+};
+
+// Subjects that never picked a set observe the built-in one
+export const getSubjectHolidaySets = (subject: Subject, sets: HolidaySet[]): HolidaySet[] => {
+  const ids = subject.holidaySetIds ?? [DEFAULT_HOLIDAY_SET_ID];
+  return sets.filter(set => ids.includes(set.id));
+};
+
+export const findHoliday = (dateStr: string, sets: HolidaySet[]): HolidayRange | undefined => {
+  for (const set of sets) {
+    const match = set.ranges.find(range => range.start <= dateStr && dateStr <= range.end);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+export const isHolidayFor = (dateStr: string, subject: Subject, sets: HolidaySet[]): boolean =>
+  Boolean(findHoliday(dateStr, getSubjectHolidaySets(subject, sets)));
+
+export const toggleSubjectHolidaySet = (subject: Subject, setId: string): Subject => {
+  const ids = subject.holidaySetIds ?? [DEFAULT_HOLIDAY_SET_ID];
+  return {
+    ...subject,
+    holidaySetIds: ids.includes(setId) ? ids.filter(id => id !== setId) : [...ids, setId],
+  };
+};
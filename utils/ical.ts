@@ -0,0 +1,134 @@
+import { addDays, getDeviceTimeZone, getZonedParts, isValidTimeZone, zonedTimeToEpoch } from './dates';
+
+// Minimal iCalendar (RFC 5545) reader: enough for holiday lists and
+// university timetable feeds. Only VEVENT components are read.
+
+export interface ICalEvent {
+  uid?: string;
+  summary: string;
+  start: string;      // ISO YYYY-MM-DD
+  end: string;        // ISO YYYY-MM-DD, inclusive
+  startTime?: string; // "HH:mm", absent for all-day events
+  endTime?: string;   // "HH:mm"
+  timeZone?: string;  // IANA zone of the times, from DTSTART's TZID; absent means the device's
+  allDay: boolean;
+  rrule?: Record<string, string>;
+  exdates: string[];  // ISO YYYY-MM-DD
+}
+
+export interface ICalValue {
+  date: string;
+  time?: string;
+}
+
+interface ICalProperty {
+  value: string;
+  tzid?: string; // TZID parameter, e.g. DTSTART;TZID=Asia/Kolkata:20260105T090000
+}
+
+// Long lines are folded onto continuation lines that start with a space or tab
+const unfoldLines = (text: string): string[] =>
+  text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+const toTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Reads a DATE or DATE-TIME value as a wall-clock time in `timeZone`. UTC
+ * values and values whose TZID names another zone are converted; floating
+ * times and unknown TZIDs (e.g. Windows zone names) are taken as they are.
+ */
+export const parseDateValue = (value: string, timeZone: string = getDeviceTimeZone(), tzid?: string): ICalValue | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, m, d, hh, mm, , utc] = match;
+  const date = `${y}-${m}-${d}`;
+  if (!hh) return { date };
+
+  const minutes = +hh * 60 + +mm;
+  let epoch: number | null = null;
+  if (utc) epoch = Date.UTC(+y, +m - 1, +d, +hh, +mm);
+  else if (tzid && tzid !== timeZone && isValidTimeZone(tzid)) epoch = zonedTimeToEpoch(date, minutes, tzid);
+  if (epoch === null) return { date, time: toTime(minutes) };
+
+  const zoned = getZonedParts(epoch, timeZone);
+  return { date: zoned.date, time: toTime(zoned.minutes) };
+};
+
+const parseRRule = (value: string): Record<string, string> =>
+  value.split(';').reduce<Record<string, string>>((acc, part) => {
+    const [key, val] = part.split('=');
+    if (key && val) acc[key.toUpperCase()] = val;
+    return acc;
+  }, {});
+
+export const parseICS = (text: string): ICalEvent[] => {
+  const events: ICalEvent[] = [];
+  let current: Record<string, ICalProperty[]> | null = null;
+
+  for (const line of unfoldLines(text)) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (current) {
+        const event = toEvent(current);
+        if (event) events.push(event);
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    // Of the property parameters only TZID matters; VALUE=DATE shows in the value itself
+    const [name, ...params] = line.slice(0, colon).split(';');
+    const tzid = params.find(param => /^TZID=/i.test(param))?.slice(5).replace(/^"|"$/g, '');
+    const key = name.toUpperCase();
+    (current[key] = current[key] || []).push({ value: line.slice(colon + 1), tzid });
+  }
+
+  return events;
+};
+
+const toEvent = (props: Record<string, ICalProperty[]>): ICalEvent | null => {
+  const dtstart = props.DTSTART?.[0];
+  const timeZone = dtstart?.tzid && isValidTimeZone(dtstart.tzid) ? dtstart.tzid : undefined;
+  // Every other value is read in the start's zone, so dates line up with it
+  const read = (prop?: ICalProperty) => prop ? parseDateValue(prop.value, timeZone, prop.tzid) : null;
+
+  const start = read(dtstart);
+  if (!start) return null;
+
+  const allDay = !start.time;
+  const rawEnd = read(props.DTEND?.[0]);
+  let end = start.date;
+  if (rawEnd) {
+    // All-day DTEND is exclusive
+    end = allDay ? addDays(rawEnd.date, -1) : rawEnd.date;
+    if (end < start.date) end = start.date;
+  }
+
+  const exdates = (props.EXDATE || [])
+    .flatMap(prop => prop.value.split(',').map(value => read({ value, tzid: prop.tzid })?.date))
+    .filter((date): date is string => Boolean(date));
+
+  return {
+    uid: props.UID?.[0]?.value,
+    summary: unescapeText(props.SUMMARY?.[0]?.value || 'Untitled'),
+    start: start.date,
+    end,
+    startTime: start.time,
+    endTime: rawEnd?.time,
+    timeZone: allDay ? undefined : timeZone,
+    allDay,
+    rrule: props.RRULE ? parseRRule(props.RRULE[0].value) : undefined,
+    exdates,
+  };
+};
@@ -0,0 +1,3 @@
+// Ids for locally created records: a type prefix, the creation time and a random suffix
+export const createId = (prefix: string): string =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { AttendanceRecord, Subject } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { applyImport, mergeHistory, planImport, resolveByNewest } from './merge';
+
+const record = (date: string, status: AttendanceRecord['status'], timestamp: number, slotId?: string): AttendanceRecord => ({
+  id: `${date}-${timestamp}`,
+  date,
+  status,
+  timestamp,
+  ...(slotId ? { slotId } : {}),
+});
+
+const makeSubject = (id: string, name: string, history: AttendanceRecord[]): Subject => ({
+  id,
+  name,
+  attended: 0,
+  total: 0,
+  schedule: [1],
+  startDate: '2026-01-05',
+  endDate: '2026-04-30',
+  history,
+});
+
+const current = [makeSubject('physics', 'Physics', [record('2026-01-05', 'PRESENT', 10), record('2026-01-12', 'ABSENT', 10)])];
+
+describe('planImport', () => {
+  it('matches by id, then by name ignoring case and spaces', () => {
+    const [byId, byName, added] = planImport(current, [
+      makeSubject('physics', 'Renamed', []),
+      makeSubject('other-id', '  physics ', []),
+      makeSubject('chem', 'Chemistry', [record('2026-01-06', 'PRESENT', 1)]),
+    ]);
+    expect(byId).toMatchObject({ matchedBy: 'ID', action: 'MERGE' });
+    expect(byName).toMatchObject({ matchedBy: 'NAME', action: 'MERGE' });
+    expect(added).toMatchObject({ action: 'ADD', newRecords: 1 });
+  });
+
+  it('flags same-class records with a different status, newest first', () => {
+    const [match] = planImport(current, [makeSubject('physics', 'Physics', [
+      record('2026-01-05', 'ABSENT', 20),
+      record('2026-01-12', 'PRESENT', 5),
+      record('2026-01-19', 'PRESENT', 5),
+    ])]);
+    expect(match.newRecords).toBe(1);
+    expect(match.conflicts.map(c => [c.key, c.keep])).toEqual([['2026-01-05|', 'INCOMING'], ['2026-01-12|', 'CURRENT']]);
+  });
+
+  it('treats records for different slots on the same day as separate', () => {
+    const [match] = planImport(current, [makeSubject('physics', 'Physics', [record('2026-01-05', 'ABSENT', 20, 'lab')])]);
+    expect(match.conflicts).toEqual([]);
+    expect(match.newRecords).toBe(1);
+  });
+
+  it('copes with incoming subjects that have no history', () => {
+    const incoming = { ...makeSubject('physics', 'Physics', []), history: undefined } as unknown as Subject;
+    const [match] = planImport(current, [incoming]);
+    expect(match).toMatchObject({ action: 'MERGE', newRecords: 0, conflicts: [] });
+    expect(applyImport(current, [match], DEFAULT_SETTINGS)[0].history).toHaveLength(2);
+  });
+});
+
+describe('resolveByNewest', () => {
+  it('resets hand-picked choices to the newest record', () => {
+    const [match] = planImport(current, [makeSubject('physics', 'Physics', [record('2026-01-05', 'ABSENT', 20)])]);
+    const edited = [{ ...match, conflicts: match.conflicts.map(c => ({ ...c, keep: 'CURRENT' as const })) }];
+    expect(resolveByNewest(edited)[0].conflicts[0].keep).toBe('INCOMING');
+  });
+});
+
+describe('mergeHistory', () => {
+  it('adds new records, applies conflict choices and sorts by date', () => {
+    const incoming = [record('2026-01-12', 'PRESENT', 20), record('2026-01-01', 'PRESENT', 20)];
+    const [match] = planImport(current, [makeSubject('physics', 'Physics', incoming)]);
+    const merged = mergeHistory(current[0].history, incoming, match.conflicts);
+    expect(merged.map(r => [r.date, r.status])).toEqual([
+      ['2026-01-01', 'PRESENT'],
+      ['2026-01-05', 'PRESENT'],
+      ['2026-01-12', 'PRESENT'],
+    ]);
+  });
+});
+
+describe('applyImport', () => {
+  it('merges histories and recomputes the derived counts', () => {
+    const plan = planImport(current, [makeSubject('physics', 'Physics', [record('2026-01-19', 'PRESENT', 1)])]);
+    const [merged] = applyImport(current, plan, DEFAULT_SETTINGS);
+    expect(merged.history).toHaveLength(3);
+    expect(merged.attended).toBe(2);
+    expect(merged.total).toBe(3);
+  });
+
+  it('replaces a subject but keeps its id and semester', () => {
+    const existing = [{ ...current[0], semesterId: 'sem-1' }];
+    const [match] = planImport(existing, [makeSubject('x', 'Physics', [])]);
+    const [replaced] = applyImport(existing, [{ ...match, action: 'REPLACE' }], DEFAULT_SETTINGS);
+    expect(replaced).toMatchObject({ id: 'physics', semesterId: 'sem-1', history: [] });
+  });
+
+  it('recomputes the counts of added and replacing subjects', () => {
+    const incoming = { ...makeSubject('chem', 'Chemistry', [record('2026-01-06', 'PRESENT', 1)]), attended: 9, total: 9 };
+    const [added] = planImport(current, [incoming]);
+    expect(applyImport(current, [added], DEFAULT_SETTINGS)[1]).toMatchObject({ attended: 1, total: 1 });
+
+    const [match] = planImport(current, [{ ...incoming, name: 'Physics' }]);
+    const [replaced] = applyImport(current, [{ ...match, action: 'REPLACE' }], DEFAULT_SETTINGS);
+    expect(replaced).toMatchObject({ id: 'physics', attended: 1, total: 1 });
+  });
+
+  it('gives added subjects a fresh id when theirs is taken', () => {
+    const [match] = planImport(current, [makeSubject('physics', 'Physics', [])]);
+    const next = applyImport(current, [{ ...match, action: 'ADD' }], DEFAULT_SETTINGS);
+    expect(next).toHaveLength(2);
+    expect(next[1].id).not.toBe('physics');
+  });
+
+  it('leaves skipped subjects out', () => {
+    const [match] = planImport(current, [makeSubject('chem', 'Chemistry', [])]);
+    expect(applyImport(current, [{ ...match, action: 'SKIP' }], DEFAULT_SETTINGS)).toEqual(current);
+  });
+});
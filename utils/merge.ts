@@ -0,0 +1,122 @@
+import { AppSettings, AttendanceRecord, Subject } from '../types';
+import { recordKey, withDerivedCounts } from './consistency';
+import { createId } from './ids';
+
+export type ImportAction = 'MERGE' | 'REPLACE' | 'ADD' | 'SKIP';
+
+export interface RecordConflict {
+  key: string; // date|slotId
+  current: AttendanceRecord;
+  incoming: AttendanceRecord;
+  keep: 'CURRENT' | 'INCOMING';
+}
+
+export interface ImportMatch {
+  incoming: Subject;
+  existing?: Subject;
+  matchedBy?: 'ID' | 'NAME';
+  action: ImportAction;
+  newRecords: number; // Incoming records with no counterpart in the existing history
+  conflicts: RecordConflict[];
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const newestWins = (current: AttendanceRecord, incoming: AttendanceRecord): RecordConflict['keep'] =>
+  incoming.timestamp > current.timestamp ? 'INCOMING' : 'CURRENT';
+
+const compareHistories = (current: AttendanceRecord[], incoming: AttendanceRecord[]) => {
+  const byKey = new Map(current.map(record => [recordKey(record), record]));
+  const conflicts: RecordConflict[] = [];
+  let newRecords = 0;
+
+  incoming.forEach(record => {
+    const existing = byKey.get(recordKey(record));
+    if (!existing) {
+      newRecords++;
+    } else if (existing.status !== record.status) {
+      conflicts.push({ key: recordKey(record), current: existing, incoming: record, keep: newestWins(existing, record) });
+    }
+  });
+
+  return { conflicts, newRecords };
+};
+
+/**
+ * Pairs each incoming subject with an existing one, by id first and then by
+ * name, and works out which history records would clash. Same-date records
+ * default to whichever has the newest timestamp.
+ */
+export const planImport = (current: Subject[], incoming: Subject[]): ImportMatch[] =>
+  incoming.map(subject => {
+    let existing = current.find(s => s.id === subject.id);
+    let matchedBy: ImportMatch['matchedBy'] = existing ? 'ID' : undefined;
+    if (!existing) {
+      existing = current.find(s => normalizeName(s.name) === normalizeName(subject.name));
+      matchedBy = existing ? 'NAME' : undefined;
+    }
+
+    if (!existing) {
+      return { incoming: subject, action: 'ADD', newRecords: (subject.history ?? []).length, conflicts: [] };
+    }
+    return {
+      incoming: subject,
+      existing,
+      matchedBy,
+      action: 'MERGE',
+      ...compareHistories(existing.history, subject.history ?? []),
+    };
+  });
+
+// Re-applies the newest-timestamp rule to every conflict
+export const resolveByNewest = (plan: ImportMatch[]): ImportMatch[] =>
+  plan.map(match => ({
+    ...match,
+    conflicts: match.conflicts.map(c => ({ ...c, keep: newestWins(c.current, c.incoming) })),
+  }));
+
+export const mergeHistory = (current: AttendanceRecord[], incoming: AttendanceRecord[], conflicts: RecordConflict[]): AttendanceRecord[] => {
+  const merged = new Map(current.map(record => [recordKey(record), record]));
+  const choices = new Map(conflicts.map(c => [c.key, c.keep]));
+
+  incoming.forEach(record => {
+    const key = recordKey(record);
+    if (!merged.has(key) || choices.get(key) === 'INCOMING') {
+      merged.set(key, record);
+    }
+  });
+
+  return Array.from(merged.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Builds the next subject list from a reviewed plan in one pass, so the
+ * caller can swap it in atomically (and keep the old list for undo).
+ * Merged subjects keep their own timetable and gain the combined history;
+ * every subject it writes has its counts recomputed from that history.
+ */
+export const applyImport = (current: Subject[], plan: ImportMatch[], settings: AppSettings): Subject[] => {
+  let next = [...current];
+  const usedIds = new Set(current.map(s => s.id));
+
+  plan.forEach(match => {
+    const { incoming, existing, action } = match;
+    if (action === 'SKIP') return;
+
+    if (action === 'ADD' || !existing) {
+      const id = usedIds.has(incoming.id)
+        ? createId('imported')
+        : incoming.id;
+      usedIds.add(id);
+      next.push(withDerivedCounts({ ...incoming, id }, settings));
+      return;
+    }
+
+    const replacement = action === 'REPLACE'
+      ? withDerivedCounts({ ...incoming, id: existing.id, semesterId: existing.semesterId }, settings)
+      : withDerivedCounts({ ...existing, history: mergeHistory(existing.history, incoming.history ?? [], match.conflicts) }, settings);
+    next = next.map(s => s.id === existing.id ? replacement : s);
+  });
+
+  return next;
+};
@@ -0,0 +1,157 @@
+import { HolidaySet, Semester, Subject, TrashEntry } from '../types';
+import { MUTATION_HISTORY_LIMIT, TRASH_RETENTION_DAYS } from '../constants';
+import { createId } from './ids';
+
+/**
+ * Undo/redo log for subject data.
+ *
+ * Each user action is recorded as a Mutation: the per-item before/after of
+ * every subject, bin entry, holiday set and semester it touched. Undo writes the "before" side
+ * back, redo the "after" side, so the log stays small no matter how big
+ * the subject list gets.
+ */
+
+export interface Change<T> {
+  id: string;
+  before: T | null; // null when the item didn't exist
+  after: T | null;  // null when the item was removed
+  index: number;    // Position in the list it was removed from / inserted at
+}
+
+export interface Mutation {
+  id: string;
+  label: string;
+  at: number;
+  subjects: Change<Subject>[];
+  trash: Change<TrashEntry>[];
+  holidaySets: Change<HolidaySet>[];
+  semesters: Change<Semester>[];
+}
+
+export interface MutationLog {
+  past: Mutation[];   // Oldest first; the last entry is what undo reverts
+  future: Mutation[]; // Undone mutations, most recently undone last
+}
+
+export interface UndoableState {
+  subjects: Subject[];
+  trash: TrashEntry[];
+  holidaySets: HolidaySet[];
+  semesters: Semester[];
+}
+
+export const EMPTY_LOG: MutationLog = { past: [], future: [] };
+
+// Items are compared by reference; every update path creates new objects
+export const diffById = <T extends { id: string }>(prev: T[], next: T[]): Change<T>[] => {
+  const prevById = new Map(prev.map((item, index) => [item.id, { item, index }]));
+  const nextById = new Map(next.map((item, index) => [item.id, { item, index }]));
+  const changes: Change<T>[] = [];
+
+  prev.forEach((item, index) => {
+    const after = nextById.get(item.id);
+    if (!after) changes.push({ id: item.id, before: item, after: null, index });
+    else if (after.item !== item) changes.push({ id: item.id, before: item, after: after.item, index: after.index });
+  });
+  next.forEach((item, index) => {
+    if (!prevById.has(item.id)) changes.push({ id: item.id, before: null, after: item, index });
+  });
+  return changes;
+};
+
+const applyChanges = <T extends { id: string }>(list: T[], changes: Change<T>[], side: 'before' | 'after'): T[] => {
+  const result = [...list];
+  // Removals first, then replacements and inserts in index order
+  changes.forEach(change => {
+    if (change[side] === null) {
+      const at = result.findIndex(item => item.id === change.id);
+      if (at !== -1) result.splice(at, 1);
+    }
+  });
+  [...changes].sort((a, b) => a.index - b.index).forEach(change => {
+    const value = change[side];
+    if (value === null) return;
+    const at = result.findIndex(item => item.id === change.id);
+    if (at !== -1) result[at] = value;
+    else result.splice(Math.min(change.index, result.length), 0, value);
+  });
+  return result;
+};
+
+const applyMutation = (state: UndoableState, mutation: Mutation, side: 'before' | 'after'): UndoableState => ({
+  subjects: applyChanges(state.subjects, mutation.subjects, side),
+  trash: applyChanges(state.trash, mutation.trash, side),
+  holidaySets: applyChanges(state.holidaySets, mutation.holidaySets, side),
+  semesters: applyChanges(state.semesters, mutation.semesters, side),
+});
+
+export const createMutation = (label: string, prev: UndoableState, next: UndoableState): Mutation | null => {
+  const subjects = diffById(prev.subjects, next.subjects);
+  const trash = diffById(prev.trash, next.trash);
+  const holidaySets = diffById(prev.holidaySets, next.holidaySets);
+  const semesters = diffById(prev.semesters, next.semesters);
+  if (subjects.length + trash.length + holidaySets.length + semesters.length === 0) return null;
+  return {
+    id: createId('mutation'),
+    label,
+    at: Date.now(),
+    subjects,
+    trash,
+    holidaySets,
+    semesters,
+  };
+};
+
+export const recordMutation = (log: MutationLog, mutation: Mutation): MutationLog => ({
+  past: [...log.past, mutation].slice(-MUTATION_HISTORY_LIMIT),
+  future: [],
+});
+
+export const undoMutation = (log: MutationLog, state: UndoableState): { log: MutationLog; state: UndoableState; mutation: Mutation } | null => {
+  const mutation = log.past[log.past.length - 1];
+  if (!mutation) return null;
+  return {
+    mutation,
+    log: { past: log.past.slice(0, -1), future: [...log.future, mutation] },
+    state: applyMutation(state, mutation, 'before'),
+  };
+};
+
+export const redoMutation = (log: MutationLog, state: UndoableState): { log: MutationLog; state: UndoableState; mutation: Mutation } | null => {
+  const mutation = log.future[log.future.length - 1];
+  if (!mutation) return null;
+  return {
+    mutation,
+    log: { past: [...log.past, mutation], future: log.future.slice(0, -1) },
+    state: applyMutation(state, mutation, 'after'),
+  };
+};
+
+// --- Soft-delete bin ---
+
+export const moveToTrash = (state: UndoableState, subjectId: string, now: number = Date.now()): UndoableState => {
+  const subject = state.subjects.find(s => s.id === subjectId);
+  if (!subject) return state;
+  return {
+    ...state,
+    subjects: state.subjects.filter(s => s.id !== subjectId),
+    trash: [...state.trash.filter(entry => entry.id !== subjectId), { id: subjectId, subject, deletedAt: now }],
+  };
+};
+
+// The restored subject counts as edited now, so syncing doesn't bin it again
+export const restoreFromTrash = (state: UndoableState, subjectId: string, now: number = Date.now()): UndoableState => {
+  const entry = state.trash.find(e => e.id === subjectId);
+  if (!entry) return state;
+  return {
+    ...state,
+    subjects: [...state.subjects.filter(s => s.id !== subjectId), { ...entry.subject, updatedAt: now }],
+    trash: state.trash.filter(e => e.id !== subjectId),
+  };
+};
+
+export const getTrashExpiry = (entry: TrashEntry): number =>
+  entry.deletedAt + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+export const purgeExpiredTrash = (trash: TrashEntry[], now: number = Date.now()): TrashEntry[] =>
+  trash.filter(entry => getTrashExpiry(entry) > now);
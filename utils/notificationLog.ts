@@ -0,0 +1,38 @@
+import { NOTIFICATION_LOG_LIMIT } from '../constants';
+import { ScheduledReminder } from './reminders';
+import { runInStore, SW_DB_NAME } from './storage';
+
+/**
+ * Record of shown notifications. It lives in the service worker's IndexedDB
+ * store (public/sw.js appends to it as reminders fire), so the page can show
+ * what fired even while it was closed. The in-page fallback engine writes
+ * to the same place.
+ */
+export interface NotificationLogEntry extends ScheduledReminder {
+  shownAt: number; // Epoch ms; reminders handed to notification triggers use their fireAt
+}
+
+const LOG_KEY = 'log';
+
+const withStore = <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  runInStore(SW_DB_NAME, mode, op);
+
+// Newest first, leaving out trigger hand-offs that haven't fired yet
+export const getNotificationLog = async (now: number = Date.now()): Promise<NotificationLogEntry[]> => {
+  if (typeof indexedDB === 'undefined') return [];
+  try {
+    const log = await withStore<NotificationLogEntry[] | undefined>('readonly', store => store.get(LOG_KEY));
+    return (log ?? []).filter(entry => entry.shownAt <= now).sort((a, b) => b.shownAt - a.shownAt);
+  } catch {
+    return [];
+  }
+};
+
+export const appendNotificationLog = async (reminders: ScheduledReminder[], shownAt: number = Date.now()) => {
+  if (typeof indexedDB === 'undefined' || reminders.length === 0) return;
+  const log = (await withStore<NotificationLogEntry[] | undefined>('readonly', store => store.get(LOG_KEY))) ?? [];
+  const next = [...log, ...reminders.map(reminder => ({ ...reminder, shownAt }))].slice(-NOTIFICATION_LOG_LIMIT);
+  await withStore('readwrite', store => store.put(next, LOG_KEY));
+};
+
+export const clearNotificationLog = () => withStore('readwrite', store => store.put([], LOG_KEY));
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { AttendanceRecord, ClassSlot, HolidaySet, Subject } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { getClassesToRecover, getUnitsOnDate, isClassDay, projectAttendance } from './projection';
+
+// 2026-01-05 is a Monday
+const MONDAY = '2026-01-05';
+
+const slot = (id: string, day: number, startTime: string, weight = 1): ClassSlot => ({
+  id,
+  day,
+  startTime,
+  durationMinutes: 60,
+  weight,
+  kind: weight > 1 ? 'LAB' : 'LECTURE',
+});
+
+const record = (date: string, status: AttendanceRecord['status'], slotId?: string): AttendanceRecord => ({
+  id: `${date}-${slotId ?? 'day'}`,
+  date,
+  status,
+  timestamp: 0,
+  ...(slotId ? { slotId } : {}),
+});
+
+const makeSubject = (overrides: Partial<Subject> = {}): Subject => ({
+  id: 'physics',
+  name: 'Physics',
+  attended: 0,
+  total: 0,
+  schedule: [1],
+  startDate: MONDAY,
+  endDate: MONDAY,
+  timeZone: 'UTC',
+  slots: [slot('mon-9', 1, '09:00'), slot('mon-11', 1, '11:00'), slot('mon-14', 1, '14:00', 2)],
+  holidaySetIds: [],
+  history: [],
+  ...overrides,
+});
+
+const holidays = (...dates: string[]): HolidaySet[] => [{
+  id: 'campus',
+  name: 'Campus',
+  ranges: dates.map(date => ({ id: date, name: 'Holiday', start: date, end: date })),
+  updatedAt: 0,
+}];
+
+describe('isClassDay', () => {
+  it('rejects dates outside the semester', () => {
+    expect(isClassDay('2026-01-04', makeSubject(), []).reason).toBe('OUT_OF_RANGE');
+    expect(isClassDay('2026-01-12', makeSubject(), []).reason).toBe('OUT_OF_RANGE');
+  });
+
+  it('accepts the first and last day of the semester', () => {
+    const subject = makeSubject({ endDate: '2026-01-12' });
+    expect(isClassDay(MONDAY, subject, []).isValid).toBe(true);
+    expect(isClassDay('2026-01-12', subject, []).isValid).toBe(true);
+  });
+
+  it('rejects weekdays without a slot', () => {
+    expect(isClassDay('2026-01-06', makeSubject({ endDate: '2026-01-12' }), []).reason).toBe('NOT_SCHEDULED');
+  });
+
+  it('rejects holidays only from sets the subject observes', () => {
+    const sets = holidays(MONDAY);
+    expect(isClassDay(MONDAY, makeSubject({ holidaySetIds: ['campus'] }), sets).reason).toBe('HOLIDAY');
+    expect(isClassDay(MONDAY, makeSubject(), sets).isValid).toBe(true);
+  });
+
+  it('keeps a session deliberately scheduled on a holiday', () => {
+    const subject = makeSubject({
+      holidaySetIds: ['campus'],
+      sessions: [{ id: 'extra', date: MONDAY, startTime: '16:00', durationMinutes: 60, weight: 1, kind: 'LECTURE' }],
+    });
+    expect(isClassDay(MONDAY, subject, holidays(MONDAY)).isValid).toBe(true);
+    expect(getUnitsOnDate(MONDAY, subject, holidays(MONDAY))).toBe(1);
+  });
+});
+
+describe('getUnitsOnDate', () => {
+  it('sums slot weights, counting a lab twice', () => {
+    expect(getUnitsOnDate(MONDAY, makeSubject(), [])).toBe(4);
+  });
+
+  it('drops a weekly slot moved to another day and counts it there', () => {
+    const subject = makeSubject({
+      endDate: '2026-01-12',
+      sessions: [{
+        id: 'moved', date: '2026-01-07', startTime: '10:00', durationMinutes: 60, weight: 1, kind: 'LECTURE',
+        movedFrom: { date: MONDAY, slotId: 'mon-9' },
+      }],
+    });
+    expect(getUnitsOnDate(MONDAY, subject, [])).toBe(3);
+    expect(getUnitsOnDate('2026-01-07', subject, [])).toBe(1);
+  });
+});
+
+describe('projectAttendance', () => {
+  it('counts every class today as left when nothing is logged', () => {
+    expect(projectAttendance(makeSubject(), DEFAULT_SETTINGS, [], MONDAY).classesLeftRaw).toBe(4);
+  });
+
+  it('only subtracts the slots already logged on a partly logged day', () => {
+    const subject = makeSubject({ history: [record(MONDAY, 'PRESENT', 'mon-9')] });
+    const result = projectAttendance(subject, DEFAULT_SETTINGS, [], MONDAY);
+    expect(result.classesLeftRaw).toBe(3);
+    expect(result.classesHeldSoFar).toBe(1);
+  });
+
+  it('treats a record without a slot as covering the whole day', () => {
+    const subject = makeSubject({ history: [record(MONDAY, 'PRESENT')] });
+    const result = projectAttendance(subject, DEFAULT_SETTINGS, [], MONDAY);
+    expect(result.classesLeftRaw).toBe(0);
+    expect(result.classesHeldSoFar).toBe(4);
+  });
+
+  it('skips holidays when counting classes left', () => {
+    const subject = makeSubject({ endDate: '2026-01-19', holidaySetIds: ['campus'] });
+    expect(projectAttendance(subject, DEFAULT_SETTINGS, [], MONDAY).classesLeftRaw).toBe(12);
+    expect(projectAttendance(subject, DEFAULT_SETTINGS, holidays('2026-01-12'), MONDAY).classesLeftRaw).toBe(8);
+  });
+
+  it('has nothing left once the semester is over', () => {
+    const result = projectAttendance(makeSubject({ initialAttended: 3, initialTotal: 4 }), DEFAULT_SETTINGS, [], '2026-02-01');
+    expect(result.classesLeftRaw).toBe(0);
+    expect(result.totalSemesterClasses).toBe(4);
+    expect(result.percentage).toBe(75);
+  });
+
+  it('leaves cancelled classes out of the total', () => {
+    const subject = makeSubject({
+      history: [record(MONDAY, 'PRESENT', 'mon-9'), record(MONDAY, 'CANCELLED', 'mon-11'), record(MONDAY, 'ABSENT', 'mon-14')],
+    });
+    const result = projectAttendance(subject, DEFAULT_SETTINGS, [], MONDAY);
+    expect(result.classesHeldSoFar).toBe(3);
+    expect(result.classesLeftRaw).toBe(0);
+  });
+
+  it('is IMPOSSIBLE when attending everything left still misses the target', () => {
+    const subject = makeSubject({ initialAttended: 0, initialTotal: 10 });
+    const result = projectAttendance(subject, DEFAULT_SETTINGS, [], MONDAY);
+    expect(result.status).toBe('IMPOSSIBLE');
+    expect(result.bunksAvailable).toBe(0);
+  });
+
+  it('is not IMPOSSIBLE when exactly enough classes are left', () => {
+    // 0 of 1 so far, 4 units left: 4 / 5 = 80% >= 75%
+    const subject = makeSubject({ initialAttended: 0, initialTotal: 1 });
+    const result = projectAttendance(subject, DEFAULT_SETTINGS, [], MONDAY);
+    expect(result.classesLeftRaw).toBe(4);
+    expect(result.status).not.toBe('IMPOSSIBLE');
+  });
+
+  it('uses the subject target over the settings target', () => {
+    const subject = makeSubject({ initialAttended: 8, initialTotal: 10, history: [record(MONDAY, 'PRESENT')] });
+    expect(projectAttendance(subject, DEFAULT_SETTINGS, [], MONDAY).classesToRecover).toBe(0);
+    expect(projectAttendance({ ...subject, targetPercentage: 0.95 }, DEFAULT_SETTINGS, [], MONDAY).classesToRecover).toBe(26);
+  });
+});
+
+describe('getClassesToRecover', () => {
+  it('returns the smallest run of classes that reaches the target', () => {
+    expect(getClassesToRecover(6, 10, 0.75)).toBe(6);
+    expect((6 + 6) / (10 + 6)).toBeGreaterThanOrEqual(0.75);
+    expect((6 + 5) / (10 + 5)).toBeLessThan(0.75);
+  });
+
+  it('is 0 at or above the target and with no classes held', () => {
+    expect(getClassesToRecover(3, 4, 0.75)).toBe(0);
+    expect(getClassesToRecover(0, 0, 0.75)).toBe(0);
+  });
+
+  it('is Infinity for a 100% target that has already been missed', () => {
+    expect(getClassesToRecover(9, 10, 1)).toBe(Infinity);
+  });
+});
@@ -0,0 +1,148 @@
+import { Subject, AppSettings, AttendanceRecord, CalculationResult, ClassSlot, HolidayRange, HolidaySet, ProjectionRange } from '../types';
+import { getSessionsOnDate, getSlotsOnDate } from './sessions';
+import { findHoliday, getSubjectHolidaySets } from './holidays';
+import { tallyAttendance } from './attendance';
+import { estimateClassesLeft } from './cancellations';
+import { classifyStatus, getActiveProfile, getMonthlyPercentage, getSubjectTarget } from './rules';
+import { datesBetween, getSubjectToday } from './dates';
+
+export interface ClassDayCheck {
+  isValid: boolean;
+  reason?: 'OUT_OF_RANGE' | 'NOT_SCHEDULED' | 'HOLIDAY';
+  holiday?: HolidayRange;
+}
+
+/**
+ * Whether a subject meets on a date, honouring its date bounds, weekly slots,
+ * extra sessions and the holiday sets it has opted into. A holiday cancels
+ * the weekly classes but not sessions deliberately scheduled on it.
+ */
+export const isClassDay = (dateStr: string, subject: Subject, holidaySets: HolidaySet[]): ClassDayCheck => {
+  if (dateStr < subject.startDate || dateStr > subject.endDate) {
+    return { isValid: false, reason: 'OUT_OF_RANGE' };
+  }
+  if (getSlotsOnDate(subject, dateStr).length === 0) {
+    return { isValid: false, reason: 'NOT_SCHEDULED' };
+  }
+  const holiday = findHoliday(dateStr, getSubjectHolidaySets(subject, holidaySets));
+  if (holiday && getSessionsOnDate(subject, dateStr).length === 0) {
+    return { isValid: false, reason: 'HOLIDAY', holiday };
+  }
+  return { isValid: true };
+};
+
+// The classes a subject actually holds on a date, in start-time order
+export const getSlotsHeldOn = (dateStr: string, subject: Subject, holidaySets: HolidaySet[]): ClassSlot[] => {
+  if (!isClassDay(dateStr, subject, holidaySets).isValid) return [];
+  const slots = getSlotsOnDate(subject, dateStr);
+  if (!findHoliday(dateStr, getSubjectHolidaySets(subject, holidaySets))) return slots;
+  const sessionIds = new Set(getSessionsOnDate(subject, dateStr).map(session => session.id));
+  return slots.filter(slot => sessionIds.has(slot.id));
+};
+
+/**
+ * A record covers a class when it's for the same date and either names the
+ * slot or names none. Records only carry a slotId when the subject meets
+ * more than once that day, so a slot-less record stands for the whole day.
+ */
+export const findSlotRecord = (subject: Subject, dateStr: string, slot: ClassSlot): AttendanceRecord | undefined =>
+  subject.history.find(record => record.date === dateStr && (!record.slotId || record.slotId === slot.id));
+
+// Classes held on a date that nothing has been logged for yet
+export const getUnloggedSlotsOn = (dateStr: string, subject: Subject, holidaySets: HolidaySet[]): ClassSlot[] =>
+  getSlotsHeldOn(dateStr, subject, holidaySets).filter(slot => !findSlotRecord(subject, dateStr, slot));
+
+export const getScheduledSubjects = (dateStr: string, subjects: Subject[], holidaySets: HolidaySet[]): Subject[] =>
+  subjects.filter(subject => isClassDay(dateStr, subject, holidaySets).isValid);
+
+// Attendance units a subject holds on a date (0 when there is no class)
+export const getUnitsOnDate = (dateStr: string, subject: Subject, holidaySets: HolidaySet[]): number =>
+  getSlotsHeldOn(dateStr, subject, holidaySets).reduce((sum, slot) => sum + slot.weight, 0);
+
+/**
+ * Units still to come on a date, seen from `today`: later dates count in
+ * full, today only counts the classes not logged yet.
+ */
+export const getUnitsLeftFrom = (today: string) =>
+  (dateStr: string, subject: Subject, holidaySets: HolidaySet[]): number =>
+    dateStr === today
+      ? getUnloggedSlotsOn(dateStr, subject, holidaySets).reduce((sum, slot) => sum + slot.weight, 0)
+      : getUnitsOnDate(dateStr, subject, holidaySets);
+
+export const countUnitsBetween = (subject: Subject, from: string, to: string, holidaySets: HolidaySet[]): number =>
+  datesBetween(from, to).reduce((sum, date) => sum + getUnitsOnDate(date, subject, holidaySets), 0);
+
+/**
+ * Smallest n such that (attended + n) / (total + n) >= target.
+ */
+export const getClassesToRecover = (attended: number, total: number, target: number): number => {
+  if (total === 0 || attended / total >= target) return 0;
+  if (target >= 1) return Infinity;
+  return Math.ceil((target * total - attended) / (1 - target));
+};
+
+/**
+ * Projects a subject to the end of its semester using its weekly slots,
+ * extra sessions, holiday sets, the attendance status rules and the active
+ * rule profile (which also decides the subject's target and SAFE/DANGER
+ * thresholds).
+ * Percentages in the result are 0-100; targets are 0.0-1.0.
+ * Classes from today onwards count as "left", less any already logged today,
+ * discounted by the subject's learned per-weekday cancellation rates. Point
+ * values use the expected case; the ranges give the spread around it.
+ */
+export const projectAttendance = (
+  subject: Subject,
+  settings: AppSettings,
+  holidaySets: HolidaySet[],
+  today: string = getSubjectToday(subject)
+): CalculationResult => {
+  const targetPercentage = getSubjectTarget(subject, settings);
+  const { attended, total: classesHeldSoFar } = tallyAttendance(subject, settings);
+
+  const left = today <= subject.endDate
+    ? estimateClassesLeft(subject, datesBetween(today, subject.endDate), getUnitsLeftFrom(today), holidaySets)
+    : { raw: 0, range: { pessimistic: 0, expected: 0, optimistic: 0 } };
+  const classesLeftRaw = left.raw;
+  const expectedLeft = left.range.expected;
+  const totalSemesterClasses = classesHeldSoFar + expectedLeft;
+
+  const percentage = classesHeldSoFar > 0 ? (attended / classesHeldSoFar) * 100 : 100;
+  const maxPossiblePercentage = totalSemesterClasses > 0
+    ? ((attended + expectedLeft) / totalSemesterClasses) * 100
+    : 100;
+
+  const bunksFor = (classesLeft: number) =>
+    Math.max(0, Math.floor(attended + classesLeft - targetPercentage * (classesHeldSoFar + classesLeft)));
+  const mapRange = (fn: (classesLeft: number) => number): ProjectionRange => ({
+    pessimistic: fn(left.range.pessimistic),
+    expected: fn(left.range.expected),
+    optimistic: fn(left.range.optimistic),
+  });
+
+  const totalSemesterRange = mapRange(classesLeft => classesHeldSoFar + classesLeft);
+  const bunksRange = mapRange(bunksFor);
+  const bunksAvailable = bunksRange.expected;
+  const classesToRecover = getClassesToRecover(attended, classesHeldSoFar, targetPercentage);
+
+  const status = classifyStatus({
+    percentage,
+    maxPossiblePercentage,
+    bunksAvailable,
+    target: targetPercentage,
+    monthlyPercentage: getMonthlyPercentage(subject, settings, today.slice(0, 7)),
+  }, getActiveProfile(settings));
+
+  return {
+    status,
+    percentage,
+    classesHeldSoFar,
+    classesLeftRaw,
+    totalSemesterClasses,
+    totalSemesterRange,
+    bunksAvailable,
+    bunksRange,
+    classesToRecover,
+    maxPossiblePercentage,
+  };
+};
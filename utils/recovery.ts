@@ -0,0 +1,269 @@
+import { HolidaySet, Subject } from '../types';
+import { DEFAULT_SETTINGS, ERROR_LOG_LIMIT } from '../constants';
+import { readRawStorage, readStoredEnvelope, writeRepairedEnvelope, SCHEMA_VERSION } from './storage';
+import { projectAttendance } from './projection';
+import { getTodayIn, isValidTimeZone, ISO_DATE, TIME_OF_DAY } from './dates';
+import { isFiniteNumber as isNumber, isObject, isValidRecord, isValidSession, isValidSlot, isWeekday } from './validation';
+import { downloadFile } from './download';
+
+/**
+ * Crash recovery: a local error log, safe-mode boot, crash reports and a
+ * guided repair of stored subjects. None of it goes through App, so the
+ * ErrorBoundary's crash screen can use all of it.
+ */
+
+// --- Error log ---
+
+export interface ErrorLogEntry {
+  at: number;
+  message: string;
+  stack?: string;
+  componentStack?: string; // React component tree, for render errors
+  url: string;
+}
+
+// Kept in localStorage: written synchronously, and separate from the IndexedDB store that may be the problem
+const ERROR_LOG_KEY = 'smartskip_error_log';
+
+export const getErrorLog = (): ErrorLogEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ERROR_LOG_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const logError = (error: unknown, componentStack?: string | null) => {
+  const entry: ErrorLogEntry = {
+    at: Date.now(),
+    message: error instanceof Error ? `${error.name}: ${error.message}` : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+    componentStack: componentStack ?? undefined,
+    url: window.location.href,
+  };
+  try {
+    localStorage.setItem(ERROR_LOG_KEY, JSON.stringify([entry, ...getErrorLog()].slice(0, ERROR_LOG_LIMIT)));
+  } catch {
+    // Storage full or blocked; the console still has it
+  }
+};
+
+export const clearErrorLog = () => localStorage.removeItem(ERROR_LOG_KEY);
+
+// Errors React never sees: event handlers, timers and rejected promises
+export const installErrorLogging = () => {
+  window.addEventListener('error', e => logError(e.error ?? e.message));
+  window.addEventListener('unhandledrejection', e => logError(e.reason));
+};
+
+// --- Safe mode ---
+// Boots with empty in-memory data: nothing stored is read, saved over or scheduled
+
+const SAFE_MODE_PARAM = 'safe';
+
+export const isSafeMode = () => new URLSearchParams(window.location.search).has(SAFE_MODE_PARAM);
+
+const reloadWithSafeMode = (safe: boolean) => {
+  const url = new URL(window.location.href);
+  if (safe) {
+    url.searchParams.set(SAFE_MODE_PARAM, '1');
+  } else {
+    url.searchParams.delete(SAFE_MODE_PARAM);
+  }
+  url.hash = '';
+  window.location.replace(url.toString());
+};
+
+export const enterSafeMode = () => reloadWithSafeMode(true);
+export const exitSafeMode = () => reloadWithSafeMode(false);
+
+// --- Crash report ---
+
+// The stored data exactly as saved, plus the error log; nothing leaves the device unless the user shares the file
+export const buildCrashReport = async (): Promise<string> => {
+  let storage: unknown;
+  try {
+    storage = await readRawStorage();
+  } catch (err) {
+    storage = { error: err instanceof Error ? err.message : String(err) };
+  }
+  return JSON.stringify({
+    app: 'SmartSkip',
+    schemaVersion: SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    errors: getErrorLog(),
+    storage,
+  }, null, 2);
+};
+
+export const downloadCrashReport = async () => {
+  downloadFile(`smartskip-crash-report-${getTodayIn()}.json`, await buildCrashReport(), 'application/json');
+};
+
+// --- Guided repair ---
+
+export type RepairAction = 'keep' | 'fix' | 'drop';
+type StoredList = 'subjects' | 'trash';
+
+export interface SubjectDiagnosis {
+  key: string;        // "<list>:<index>" into the stored envelope
+  name: string;
+  deleted: boolean;   // In the bin rather than live
+  problems: string[];
+  fixable: boolean;   // Fixing leaves a subject the engine can handle
+}
+
+const countInvalid = (list: unknown, isValid: (item: unknown) => boolean) =>
+  Array.isArray(list) ? list.filter(item => !isValid(item)).length : 0;
+
+const plural = (n: number, word: string) => `${n} unreadable ${word}${n !== 1 ? 's' : ''}`;
+
+const findProblems = (s: Record<string, any>): string[] => {
+  const problems: string[] = [];
+  if (typeof s.name !== 'string' || !s.name.trim()) problems.push('Missing name');
+  if (!ISO_DATE.test(s.startDate) || !ISO_DATE.test(s.endDate)) problems.push('Invalid start or end date');
+  else if (s.startDate > s.endDate) problems.push('Ends before it starts');
+  if (!Array.isArray(s.history)) problems.push('Attendance history is missing');
+  const badRecords = countInvalid(s.history, isValidRecord);
+  if (badRecords > 0) problems.push(plural(badRecords, 'attendance record'));
+  if (!Array.isArray(s.schedule) || !s.schedule.every(isWeekday)) problems.push('Invalid weekly schedule');
+  if (s.slots !== undefined && !Array.isArray(s.slots)) problems.push('Invalid timetable slots');
+  const badSlots = countInvalid(s.slots, isValidSlot);
+  if (badSlots > 0) problems.push(plural(badSlots, 'timetable slot'));
+  if (s.sessions !== undefined && !Array.isArray(s.sessions)) problems.push('Invalid extra classes');
+  const badSessions = countInvalid(s.sessions, isValidSession);
+  if (badSessions > 0) problems.push(plural(badSessions, 'extra class'));
+  if (s.startTime !== undefined && !TIME_OF_DAY.test(s.startTime)) problems.push('Invalid start time');
+  if (s.timeZone !== undefined && (typeof s.timeZone !== 'string' || !isValidTimeZone(s.timeZone))) problems.push(`Unknown time zone "${s.timeZone}"`);
+  if (s.targetPercentage !== undefined && !(isNumber(s.targetPercentage) && s.targetPercentage > 0 && s.targetPercentage <= 1)) problems.push('Invalid target');
+  if (s.holidaySetIds !== undefined && !(Array.isArray(s.holidaySetIds) && s.holidaySetIds.every((id: unknown) => typeof id === 'string'))) {
+    problems.push('Invalid holiday list choice');
+  }
+  return problems;
+};
+
+/**
+ * Keeps everything readable and drops the rest: bad records, slots and
+ * sessions go, invalid optional fields fall back to their defaults. Returns
+ * null when the subject can't be saved (no usable dates).
+ */
+const fixSubject = (s: Record<string, any>): Subject | null => {
+  if (!ISO_DATE.test(s.startDate) || !ISO_DATE.test(s.endDate)) return null;
+  const fixed: Record<string, any> = {
+    ...s,
+    name: typeof s.name === 'string' && s.name.trim() ? s.name : 'Untitled subject',
+    startDate: s.startDate <= s.endDate ? s.startDate : s.endDate,
+    endDate: s.startDate <= s.endDate ? s.endDate : s.startDate,
+    history: Array.isArray(s.history) ? s.history.filter(isValidRecord) : [],
+    schedule: Array.isArray(s.schedule) ? s.schedule.filter(isWeekday) : [],
+  };
+  if (Array.isArray(s.slots)) fixed.slots = s.slots.filter(isValidSlot);
+  else delete fixed.slots;
+  if (Array.isArray(s.sessions)) fixed.sessions = s.sessions.filter(isValidSession);
+  else delete fixed.sessions;
+  if (s.startTime !== undefined && !TIME_OF_DAY.test(s.startTime)) delete fixed.startTime;
+  if (s.timeZone !== undefined && (typeof s.timeZone !== 'string' || !isValidTimeZone(s.timeZone))) delete fixed.timeZone;
+  if (s.targetPercentage !== undefined && !(isNumber(s.targetPercentage) && s.targetPercentage > 0 && s.targetPercentage <= 1)) {
+    delete fixed.targetPercentage;
+  }
+  if (s.holidaySetIds !== undefined && !(Array.isArray(s.holidaySetIds) && s.holidaySetIds.every((id: unknown) => typeof id === 'string'))) {
+    delete fixed.holidaySetIds;
+  }
+  return fixed as Subject;
+};
+
+// Runs the attendance engine the way the dashboard does; returns the error message if it throws
+const crashesEngine = (subject: Subject, holidaySets: HolidaySet[]): string | null => {
+  try {
+    projectAttendance(subject, DEFAULT_SETTINGS, holidaySets);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+};
+
+const getStoredHolidaySets = (data: any): HolidaySet[] =>
+  Array.isArray(data.holidaySets) ? data.holidaySets.filter((set: any) => isObject(set) && Array.isArray(set.ranges)) : [];
+
+const getStoredSubject = (data: any, list: StoredList, index: number): unknown =>
+  list === 'subjects' ? data.subjects?.[index] : data.trash?.[index]?.subject;
+
+const listEntries = (data: any): { list: StoredList; index: number }[] => [
+  ...(Array.isArray(data.subjects) ? data.subjects.map((_: unknown, index: number) => ({ list: 'subjects' as const, index })) : []),
+  ...(Array.isArray(data.trash) ? data.trash.map((_: unknown, index: number) => ({ list: 'trash' as const, index })) : []),
+];
+
+/**
+ * Checks every stored subject, live and deleted, for malformed fields and
+ * for crashing the attendance engine. Only subjects with problems are
+ * returned; null means the stored data couldn't be read at all (the app
+ * quarantines that on its own at the next load).
+ */
+export const diagnoseStoredData = async (): Promise<SubjectDiagnosis[] | null> => {
+  const data = await readStoredEnvelope();
+  if (!data) return null;
+  const holidaySets = getStoredHolidaySets(data);
+
+  return listEntries(data).flatMap(({ list, index }) => {
+    const raw = getStoredSubject(data, list, index);
+    const base = { key: `${list}:${index}`, deleted: list === 'trash' };
+    if (!isObject(raw)) {
+      return [{ ...base, name: 'Unknown subject', problems: ['Not a subject record'], fixable: false }];
+    }
+
+    const problems = findProblems(raw);
+    if (problems.length === 0) {
+      const crash = crashesEngine(raw as Subject, holidaySets);
+      if (crash) problems.push(`Crashes the attendance engine: ${crash}`);
+    }
+    if (problems.length === 0) return [];
+
+    const fixed = fixSubject(raw);
+    return [{
+      ...base,
+      name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : 'Unnamed subject',
+      problems,
+      fixable: Boolean(fixed) && crashesEngine(fixed!, holidaySets) === null,
+    }];
+  });
+};
+
+/**
+ * Applies the chosen action per diagnosed subject and saves the result.
+ * Dropped subjects are copied to the quarantine list, so they stay in
+ * crash reports rather than being lost outright.
+ */
+export const applyRepairs = async (actions: Record<string, RepairAction>): Promise<void> => {
+  const data = await readStoredEnvelope();
+  if (!data) throw new Error('Stored data could not be read');
+
+  const removed: { reason: string; value: unknown }[] = [];
+  const dropped = new Set<string>();
+  const subjects: unknown[] = Array.isArray(data.subjects) ? [...data.subjects] : [];
+  const trash: unknown[] = Array.isArray(data.trash) ? [...data.trash] : [];
+
+  Object.entries(actions).forEach(([key, action]) => {
+    const [list, indexText] = key.split(':') as [StoredList, string];
+    const index = Number(indexText);
+    const raw = getStoredSubject(data, list, index);
+    if (action === 'keep' || raw === undefined) return;
+
+    const fixed = action === 'fix' && isObject(raw) ? fixSubject(raw) : null;
+    if (fixed) {
+      if (list === 'subjects') subjects[index] = fixed;
+      else trash[index] = { ...(trash[index] as object), subject: fixed };
+      return;
+    }
+    const name = isObject(raw) && typeof raw.name === 'string' ? raw.name : 'unknown';
+    removed.push({ reason: `Removed during repair: "${name}"`, value: list === 'subjects' ? raw : trash[index] });
+    dropped.add(key);
+  });
+
+  await writeRepairedEnvelope({
+    ...data,
+    subjects: Array.isArray(data.subjects) ? subjects.filter((_, i) => !dropped.has(`subjects:${i}`)) : data.subjects,
+    trash: Array.isArray(data.trash) ? trash.filter((_, i) => !dropped.has(`trash:${i}`)) : data.trash,
+  }, removed);
+};
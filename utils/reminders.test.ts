@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { AppSettings, HolidaySet, Subject } from '../types';
+import { DEFAULT_SETTINGS, REMINDER_CATCH_UP_MS } from '../constants';
+import { applyQuietHours, buildReminderSchedule, getDueReminders, getReminderLead, ScheduledReminder } from './reminders';
+
+const settings: AppSettings = {
+  ...DEFAULT_SETTINGS,
+  notificationsEnabled: true,
+  dailyReminder: false,
+  classReminders: true,
+  classReminderLead: 15,
+  riskAlerts: false,
+  nightlyDigest: false,
+};
+
+// Mondays 09:00 in Kolkata, for two weeks from 2026-01-05
+const subject: Subject = {
+  id: 'physics',
+  name: 'Physics',
+  attended: 0,
+  total: 0,
+  schedule: [1],
+  startDate: '2026-01-05',
+  endDate: '2026-01-18',
+  timeZone: 'Asia/Kolkata',
+  slots: [{ id: 'mon-9', day: 1, startTime: '09:00', durationMinutes: 60, weight: 1, kind: 'LECTURE' }],
+  holidaySetIds: [],
+  history: [],
+};
+
+const utc = (iso: string) => Date.parse(iso);
+const now = new Date('2026-01-04T12:00:00Z');
+
+describe('buildReminderSchedule', () => {
+  it('schedules nothing while notifications are off', () => {
+    expect(buildReminderSchedule([subject], { ...settings, notificationsEnabled: false }, [], now, 7, 'UTC')).toEqual([]);
+  });
+
+  it("fires class reminders the lead time before class in the subject's zone", () => {
+    const reminders = buildReminderSchedule([subject], settings, [], now, 7, 'Asia/Kolkata');
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0].id).toBe('class-physics-mon-9-2026-01-05');
+    // 08:45 IST is 03:15 UTC
+    expect(reminders[0].fireAt).toBe(utc('2026-01-05T03:15:00Z'));
+    expect(reminders[0].expiresAt).toBe(utc('2026-01-05T04:30:00Z'));
+    expect(reminders[0].body).toBe('Starting at 09:00 (in 15 mins)');
+  });
+
+  it('names the subject zone when the device is elsewhere, without moving the class', () => {
+    const [reminder] = buildReminderSchedule([subject], settings, [], now, 7, 'Europe/London');
+    expect(reminder.fireAt).toBe(utc('2026-01-05T03:15:00Z'));
+    expect(reminder.body).toContain('Asia/Kolkata time');
+  });
+
+  it('skips holidays and respects per-subject leads', () => {
+    const holidays: HolidaySet[] = [{
+      id: 'campus', name: 'Campus', updatedAt: 0,
+      ranges: [{ id: 'h', name: 'Holiday', start: '2026-01-05', end: '2026-01-05' }],
+    }];
+    expect(buildReminderSchedule([{ ...subject, holidaySetIds: ['campus'] }], settings, holidays, now, 7, 'UTC')).toEqual([]);
+    expect(buildReminderSchedule([{ ...subject, reminderLeadMinutes: null }], settings, [], now, 7, 'UTC')).toEqual([]);
+
+    const [early] = buildReminderSchedule([{ ...subject, reminderLeadMinutes: 60 }], settings, [], now, 7, 'UTC');
+    expect(early.fireAt).toBe(utc('2026-01-05T02:30:00Z'));
+  });
+
+  it('places daily reminders in the device zone', () => {
+    const reminders = buildReminderSchedule([], { ...settings, dailyReminder: true, dailyReminderTime: '20:00' }, [], now, 2, 'America/New_York');
+    expect(reminders.map(r => r.id)).toEqual(['daily-2026-01-04', 'daily-2026-01-05']);
+    expect(reminders[0].fireAt).toBe(utc('2026-01-05T01:00:00Z'));
+  });
+});
+
+describe('applyQuietHours', () => {
+  const quiet = { ...settings, quietHours: true, quietHoursStart: '23:00', quietHoursEnd: '07:00' };
+  const at = (kind: ScheduledReminder['kind'], iso: string): ScheduledReminder =>
+    ({ id: `${kind}-${iso}`, kind, fireAt: utc(iso), title: '', body: '' });
+
+  it('drops class reminders inside quiet hours that wrap midnight', () => {
+    expect(applyQuietHours([at('class', '2026-01-05T23:30:00Z'), at('class', '2026-01-05T06:59:00Z')], quiet, 'UTC')).toEqual([]);
+    expect(applyQuietHours([at('class', '2026-01-05T07:00:00Z')], quiet, 'UTC')).toHaveLength(1);
+  });
+
+  it('moves daily reminders to the end of the quiet period', () => {
+    const [late] = applyQuietHours([at('daily', '2026-01-05T23:30:00Z')], quiet, 'UTC');
+    expect(late.fireAt).toBe(utc('2026-01-06T07:00:00Z'));
+    const [early] = applyQuietHours([at('daily', '2026-01-05T02:00:00Z')], quiet, 'UTC');
+    expect(early.fireAt).toBe(utc('2026-01-05T07:00:00Z'));
+  });
+});
+
+describe('getDueReminders', () => {
+  const reminder: ScheduledReminder = { id: 'r', kind: 'daily', fireAt: 1_000, title: '', body: '' };
+
+  it('returns reminders that are due and not yet shown', () => {
+    expect(getDueReminders([reminder], new Set(), 1_000, 500)).toEqual([reminder]);
+    expect(getDueReminders([reminder], new Set(['r']), 1_000, 500)).toEqual([]);
+    expect(getDueReminders([reminder], new Set(), 999, 500)).toEqual([]);
+  });
+
+  it('drops reminders missed by more than the catch-up window', () => {
+    expect(getDueReminders([reminder], new Set(), 1_500, 500)).toEqual([reminder]);
+    expect(getDueReminders([reminder], new Set(), 1_501, 500)).toEqual([]);
+  });
+
+  it('only catches up on a class reminder until the class ends', () => {
+    const [classReminder] = buildReminderSchedule([subject], settings, [], now, 7, 'Asia/Kolkata');
+    expect(getDueReminders([classReminder], new Set(), utc('2026-01-05T04:29:00Z'), REMINDER_CATCH_UP_MS)).toEqual([classReminder]);
+    expect(getDueReminders([classReminder], new Set(), utc('2026-01-05T04:30:00Z'), REMINDER_CATCH_UP_MS)).toEqual([]);
+  });
+});
+
+describe('getReminderLead', () => {
+  it('prefers the subject override, with null muting it', () => {
+    expect(getReminderLead(subject, settings)).toBe(15);
+    expect(getReminderLead({ ...subject, reminderLeadMinutes: 5 }, settings)).toBe(5);
+    expect(getReminderLead({ ...subject, reminderLeadMinutes: null }, settings)).toBeNull();
+  });
+});
@@ -0,0 +1,207 @@
+import { AppSettings, HolidaySet, Subject } from '../types';
+import { CLASS_REMINDER_LEAD_MINUTES, REMINDER_HORIZON_DAYS, RISK_ALERT_FALLBACK_TIME } from '../constants';
+import { getClassesToRecover, getSlotsHeldOn } from './projection';
+import { tallyAttendance } from './attendance';
+import { getSubjectTarget } from './rules';
+import { simulateSkips } from './whatIf';
+import {
+  addDays, datesBetween, getDeviceTimeZone, getSubjectTimeZone, getTodayIn, getZonedParts, timeToMinutes,
+  zonedTimeToEpoch,
+} from './dates';
+
+export type ReminderKind = 'daily' | 'class' | 'risk' | 'digest';
+
+/**
+ * A notification computed ahead of time. The service worker stores these
+ * and shows each one once when `fireAt` passes, even if the page is closed.
+ * Class times are read in each subject's time zone; the daily check, the
+ * digest and quiet hours follow the device's zone, wherever the user is.
+ */
+export interface ScheduledReminder {
+  id: string;     // Stable across rebuilds, used to avoid firing twice
+  kind: ReminderKind;
+  fireAt: number; // Epoch ms
+  expiresAt?: number; // Epoch ms after which a missed reminder is dropped; class and risk reminders end with the class
+  title: string;
+  body: string;
+}
+
+// Minutes before class for this subject, or null when it is muted (no class or risk alerts)
+export const getReminderLead = (subject: Subject, settings: AppSettings): number | null => {
+  if (subject.reminderLeadMinutes === null) return null;
+  return subject.reminderLeadMinutes ?? settings.classReminderLead ?? CLASS_REMINDER_LEAD_MINUTES;
+};
+
+// Start and end, in minutes past midnight, of the first timed class on a date
+const getFirstClass = (subject: Subject, date: string, holidaySets: HolidaySet[]): { start: number; end: number } | null => {
+  const classes = getSlotsHeldOn(date, subject, holidaySets)
+    .filter(slot => slot.startTime)
+    .map(slot => ({ start: timeToMinutes(slot.startTime!), end: timeToMinutes(slot.startTime!) + slot.durationMinutes }));
+  return classes.length > 0 ? classes.reduce((first, next) => next.start < first.start ? next : first) : null;
+};
+
+/**
+ * "Skipping today's X drops you to DANGER" alerts. Only today is checked:
+ * later days depend on what gets logged in between, and the schedule is
+ * rebuilt whenever the data changes.
+ */
+const buildRiskAlerts = (
+  subjects: Subject[],
+  settings: AppSettings,
+  holidaySets: HolidaySet[],
+  now: Date
+): ScheduledReminder[] =>
+  subjects.flatMap(subject => {
+    const lead = getReminderLead(subject, settings);
+    if (lead === null) return [];
+    const timeZone = getSubjectTimeZone(subject);
+    const today = getTodayIn(timeZone, now.getTime());
+    const [result] = simulateSkips([subject], settings, holidaySets, [today], today);
+    if (!result || result.before.status !== 'SAFE' || result.after.status === 'SAFE') return [];
+
+    const firstClass = getFirstClass(subject, today, holidaySets);
+    if (firstClass !== null && zonedTimeToEpoch(today, firstClass.start, timeZone) <= now.getTime()) return [];
+    const fireMinutes = firstClass !== null ? firstClass.start - lead : timeToMinutes(RISK_ALERT_FALLBACK_TIME);
+
+    return [{
+      id: `risk-${subject.id}-${today}`,
+      kind: 'risk' as const,
+      fireAt: zonedTimeToEpoch(today, fireMinutes, timeZone),
+      // Without class times the alert holds for the rest of the day
+      expiresAt: firstClass !== null
+        ? zonedTimeToEpoch(today, firstClass.end, timeZone)
+        : zonedTimeToEpoch(addDays(today, 1), 0, timeZone),
+      title: `Don't skip ${subject.name} today`,
+      body: `Skipping today's ${subject.name} drops you to ${result.after.status} ` +
+        `(${result.before.percentage.toFixed(1)}% → ${result.after.percentage.toFixed(1)}%)`,
+    }];
+  });
+
+const getRecoverNeeded = (subject: Subject, settings: AppSettings) => {
+  const { attended, total } = tallyAttendance(subject, settings);
+  return getClassesToRecover(attended, total, getSubjectTarget(subject, settings));
+};
+
+/**
+ * Tonight's digest: subjects whose classes-to-recover went up with today's
+ * records. Nothing is scheduled on a day where no subject slipped.
+ */
+const buildNightlyDigest = (subjects: Subject[], settings: AppSettings, now: Date, deviceTimeZone: string): ScheduledReminder[] => {
+  const today = getTodayIn(deviceTimeZone, now.getTime());
+  const slipped = subjects.flatMap(subject => {
+    const subjectToday = getTodayIn(getSubjectTimeZone(subject), now.getTime());
+    const before = getRecoverNeeded({ ...subject, history: subject.history.filter(r => r.date < subjectToday) }, settings);
+    const after = getRecoverNeeded(subject, settings);
+    return after > before ? [`${subject.name}: ${after} to recover (+${after - before})`] : [];
+  });
+  if (slipped.length === 0 || !settings.nightlyDigestTime) return [];
+
+  return [{
+    id: `digest-${today}`,
+    kind: 'digest',
+    fireAt: zonedTimeToEpoch(today, timeToMinutes(settings.nightlyDigestTime), deviceTimeZone),
+    title: 'SmartSkip Nightly Digest',
+    body: slipped.join('\n'),
+  }];
+};
+
+/**
+ * Quiet hours: reminders tied to a class time are dropped, the daily check
+ * and digest move to the end of the quiet period.
+ */
+export const applyQuietHours = (
+  reminders: ScheduledReminder[],
+  settings: AppSettings,
+  deviceTimeZone: string = getDeviceTimeZone()
+): ScheduledReminder[] => {
+  if (!settings.quietHours || !settings.quietHoursStart || !settings.quietHoursEnd) return reminders;
+  const start = timeToMinutes(settings.quietHoursStart);
+  const end = timeToMinutes(settings.quietHoursEnd);
+  if (start === end) return reminders;
+  const wraps = start > end; // e.g. 23:00-07:00
+
+  return reminders.flatMap(reminder => {
+    const { date, minutes } = getZonedParts(reminder.fireAt, deviceTimeZone);
+    const isQuiet = wraps ? minutes >= start || minutes < end : minutes >= start && minutes < end;
+    if (!isQuiet) return [reminder];
+    if (reminder.kind === 'class' || reminder.kind === 'risk') return [];
+
+    const endDate = wraps && minutes >= start ? addDays(date, 1) : date;
+    return [{ ...reminder, fireAt: zonedTimeToEpoch(endDate, end, deviceTimeZone) }];
+  });
+};
+
+export const buildReminderSchedule = (
+  subjects: Subject[],
+  settings: AppSettings,
+  holidaySets: HolidaySet[],
+  now: Date = new Date(),
+  days: number = REMINDER_HORIZON_DAYS,
+  deviceTimeZone: string = getDeviceTimeZone()
+): ScheduledReminder[] => {
+  if (!settings.notificationsEnabled) return [];
+
+  const reminders: ScheduledReminder[] = [];
+  const datesFrom = (timeZone: string) => {
+    const today = getTodayIn(timeZone, now.getTime());
+    return datesBetween(today, addDays(today, days - 1));
+  };
+
+  if (settings.dailyReminder && settings.dailyReminderTime) {
+    const time = timeToMinutes(settings.dailyReminderTime);
+    datesFrom(deviceTimeZone).forEach(date => reminders.push({
+      id: `daily-${date}`,
+      kind: 'daily',
+      fireAt: zonedTimeToEpoch(date, time, deviceTimeZone),
+      title: 'SmartSkip Daily Check',
+      body: "Don't forget to log your attendance today!",
+    }));
+  }
+
+  if (settings.classReminders) {
+    subjects.forEach(subject => {
+      const lead = getReminderLead(subject, settings);
+      if (lead === null) return;
+      const timeZone = getSubjectTimeZone(subject);
+      // Name the zone when it isn't the one the device is in
+      const zoneNote = timeZone === deviceTimeZone ? '' : ` ${timeZone} time`;
+
+      datesFrom(timeZone).forEach(date => {
+        getSlotsHeldOn(date, subject, holidaySets).forEach(slot => {
+          if (!slot.startTime) return;
+          const start = timeToMinutes(slot.startTime);
+          reminders.push({
+            id: `class-${subject.id}-${slot.id}-${date}`,
+            kind: 'class',
+            fireAt: zonedTimeToEpoch(date, start - lead, timeZone),
+            expiresAt: zonedTimeToEpoch(date, start + slot.durationMinutes, timeZone),
+            title: `Upcoming ${slot.kind === 'LAB' ? 'Lab' : 'Class'}: ${subject.name}`,
+            body: lead > 0
+              ? `Starting at ${slot.startTime}${zoneNote} (in ${lead} mins)`
+              : `Starting now (${slot.startTime}${zoneNote})`,
+          });
+        });
+      });
+    });
+  }
+
+  if (settings.riskAlerts) reminders.push(...buildRiskAlerts(subjects, settings, holidaySets, now));
+  if (settings.nightlyDigest) reminders.push(...buildNightlyDigest(subjects, settings, now, deviceTimeZone));
+
+  return applyQuietHours(reminders, settings, deviceTimeZone).sort((a, b) => a.fireAt - b.fireAt);
+};
+
+/**
+ * Reminders whose time has come and that haven't been shown. Ones missed by
+ * less than `catchUpMs` (e.g. while the device slept) are still returned,
+ * unless they have expired: a class reminder is no use once the class is over.
+ */
+export const getDueReminders = (
+  reminders: ScheduledReminder[],
+  firedIds: Set<string>,
+  now: number,
+  catchUpMs: number
+): ScheduledReminder[] =>
+  reminders.filter(r =>
+    r.fireAt <= now && now - r.fireAt <= catchUpMs && (r.expiresAt === undefined || now < r.expiresAt) && !firedIds.has(r.id)
+  );
@@ -0,0 +1,66 @@
+import { AppSettings, AttendanceStatus, RuleProfile, Subject } from '../types';
+import { CUSTOM_PROFILE_ID, RULE_PRESETS } from '../constants';
+import { getSubjectSlots } from './slots';
+import { tallyAttendance } from './attendance';
+
+/**
+ * The profile in effect. Presets are fixed; the custom profile takes its
+ * theory target from settings.targetPercentage so the existing target
+ * setting keeps working.
+ */
+export const getActiveProfile = (settings: AppSettings): RuleProfile => {
+  const preset = RULE_PRESETS.find(p => p.id === settings.ruleProfileId);
+  if (preset) return preset;
+
+  // The stored profile only supplies the rules; id and name always mark it as custom
+  return {
+    labTarget: settings.targetPercentage,
+    dangerMargin: 0,
+    dangerBunks: 0,
+    ...settings.customProfile,
+    id: CUSTOM_PROFILE_ID,
+    name: 'Custom',
+    theoryTarget: settings.targetPercentage,
+  };
+};
+
+export const isLabSubject = (subject: Subject): boolean => {
+  const slots = getSubjectSlots(subject);
+  return slots.length > 0 && slots.every(slot => slot.kind === 'LAB');
+};
+
+export const getSubjectTarget = (subject: Subject, settings: AppSettings): number => {
+  if (subject.targetPercentage !== undefined) return subject.targetPercentage;
+  const profile = getActiveProfile(settings);
+  return isLabSubject(subject) ? profile.labTarget : profile.theoryTarget;
+};
+
+// Percentage (0-100) of the records logged in one calendar month ("YYYY-MM")
+export const getMonthlyPercentage = (subject: Subject, settings: AppSettings, month: string): number | null => {
+  const history = subject.history.filter(record => record.date.startsWith(month));
+  const { attended, total } = tallyAttendance(
+    { ...subject, history, initialAttended: 0, initialTotal: 0 },
+    settings
+  );
+  return total > 0 ? (attended / total) * 100 : null;
+};
+
+export interface StatusInputs {
+  percentage: number;            // 0-100
+  maxPossiblePercentage: number; // 0-100
+  bunksAvailable: number;
+  target: number;                // 0.0 to 1.0
+  monthlyPercentage: number | null;
+}
+
+export const classifyStatus = (inputs: StatusInputs, profile: RuleProfile): AttendanceStatus => {
+  const { percentage, maxPossiblePercentage, bunksAvailable, target, monthlyPercentage } = inputs;
+
+  if (maxPossiblePercentage < target * 100) return 'IMPOSSIBLE';
+  if (percentage < (target + profile.dangerMargin) * 100) return 'DANGER';
+  if (bunksAvailable <= profile.dangerBunks) return 'DANGER';
+  if (profile.monthlyMinimum !== undefined && monthlyPercentage !== null && monthlyPercentage < profile.monthlyMinimum * 100) {
+    return 'DANGER';
+  }
+  return 'SAFE';
+};
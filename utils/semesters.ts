@@ -0,0 +1,127 @@
+import { AppSettings, Semester, Subject } from '../types';
+import { DEFAULT_SEMESTER_WEEKS } from '../constants';
+import { createSlot, getSubjectSlots, syncScheduleFromSlots } from './slots';
+import { tallyAttendance } from './attendance';
+import { addDays, parseISODate, getTodayIn } from './dates';
+import { createId } from './ids';
+
+export interface SemesterSummary {
+  semester: Semester;
+  subjectCount: number;
+  attended: number;
+  total: number;
+  percentage: number | null; // 0-100, null before anything is logged
+}
+
+// "Aug – Dec 2026", or "Dec 2026 – Apr 2027" across a year boundary
+export const getDefaultSemesterName = (startDate: string, endDate: string): string => {
+  const start = parseISODate(startDate);
+  const end = parseISODate(endDate);
+  const month = (date: Date) => date.toLocaleDateString('en-US', { month: 'short' });
+  return start.getFullYear() === end.getFullYear()
+    ? `${month(start)} – ${month(end)} ${end.getFullYear()}`
+    : `${month(start)} ${start.getFullYear()} – ${month(end)} ${end.getFullYear()}`;
+};
+
+export const createSemester = (startDate: string, endDate: string, name?: string): Semester => ({
+  id: createId('semester'),
+  name: name?.trim() || getDefaultSemesterName(startDate, endDate),
+  startDate,
+  endDate,
+});
+
+// Spans the given subjects' dates; used to adopt subjects saved before semesters existed
+export const createSemesterFromSubjects = (subjects: Subject[]): Semester => {
+  if (subjects.length === 0) {
+    const today = getTodayIn();
+    return createSemester(today, addDays(today, DEFAULT_SEMESTER_WEEKS * 7));
+  }
+  const starts = subjects.map(s => s.startDate).sort();
+  const ends = subjects.map(s => s.endDate).sort();
+  return createSemester(starts[0], ends[ends.length - 1]);
+};
+
+export const isArchived = (semester: Semester | undefined): boolean => Boolean(semester?.archivedAt);
+
+export const getSemesterSubjects = (subjects: Subject[], semesterId: string): Subject[] =>
+  subjects.filter(subject => subject.semesterId === semesterId);
+
+// Newest first by start date
+export const sortSemesters = (semesters: Semester[]): Semester[] =>
+  [...semesters].sort((a, b) => b.startDate.localeCompare(a.startDate));
+
+/**
+ * Makes sure there is at least one semester and every subject belongs to
+ * one that exists. Orphans go to the newest semester that isn't archived,
+ * or a new one when all are.
+ */
+export const ensureSemesters = (
+  subjects: Subject[],
+  semesters: Semester[]
+): { subjects: Subject[]; semesters: Semester[] } => {
+  const known = new Set(semesters.map(s => s.id));
+  const orphans = subjects.filter(subject => !subject.semesterId || !known.has(subject.semesterId));
+  if (orphans.length === 0 && semesters.length > 0) return { subjects, semesters };
+
+  let home = sortSemesters(semesters).find(s => !isArchived(s));
+  const nextSemesters = [...semesters];
+  if (!home) {
+    home = createSemesterFromSubjects(orphans);
+    nextSemesters.push(home);
+  }
+  const homeId = home.id;
+
+  return {
+    subjects: subjects.map(subject =>
+      subject.semesterId && known.has(subject.semesterId) ? subject : { ...subject, semesterId: homeId }
+    ),
+    semesters: nextSemesters,
+  };
+};
+
+/**
+ * Copies a semester's timetable into a new one: same names, slots, targets
+ * and holiday sets, with fresh ids, the new semester's dates and an empty
+ * history.
+ */
+export const cloneTimetable = (subjects: Subject[], semester: Semester): Subject[] =>
+  subjects.map(subject => syncScheduleFromSlots({
+    id: createId('subject'),
+    name: subject.name,
+    attended: 0,
+    total: 0,
+    schedule: [],
+    startDate: semester.startDate,
+    endDate: semester.endDate,
+    slots: getSubjectSlots(subject).map(slot => ({
+      ...slot,
+      id: createSlot(slot.day, slot.startTime, slot.kind).id,
+    })),
+    targetPercentage: subject.targetPercentage,
+    holidaySetIds: subject.holidaySetIds,
+    semesterId: semester.id,
+    history: [],
+    initialAttended: 0,
+    initialTotal: 0,
+  }));
+
+export const summarizeSubjects = (subjects: Subject[], settings: AppSettings) =>
+  subjects.reduce(
+    (sum, subject) => {
+      const { attended, total } = tallyAttendance(subject, settings);
+      return { attended: sum.attended + attended, total: sum.total + total };
+    },
+    { attended: 0, total: 0 }
+  );
+
+export const summarizeSemester = (semester: Semester, subjects: Subject[], settings: AppSettings): SemesterSummary => {
+  const members = getSemesterSubjects(subjects, semester.id);
+  const { attended, total } = summarizeSubjects(members, settings);
+  return {
+    semester,
+    subjectCount: members.length,
+    attended,
+    total,
+    percentage: total > 0 ? (attended / total) * 100 : null,
+  };
+};
@@ -0,0 +1,76 @@
+import { ScheduledReminder } from './reminders';
+import { TodaySummary } from './today';
+import { logError } from './recovery';
+
+// Periodic Background Sync; TypeScript's DOM types don't include it yet
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>;
+}
+
+declare global {
+  interface ServiceWorkerRegistration {
+    readonly periodicSync?: PeriodicSyncManager;
+  }
+}
+
+const PERIODIC_SYNC_TAG = 'smartskip-reminders';
+const PERIODIC_SYNC_INTERVAL = 15 * 60 * 1000;
+
+const WORKER_READY_TIMEOUT_MS = 10 * 1000;
+
+const isServiceWorkerSupported = () => 'serviceWorker' in navigator;
+
+// Settles once registerServiceWorker has succeeded (the registration) or failed (null)
+let settleRegistration: (registration: ServiceWorkerRegistration | null) => void = () => undefined;
+const registration = new Promise<ServiceWorkerRegistration | null>(resolve => { settleRegistration = resolve; });
+
+const register = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!isServiceWorkerSupported()) return null;
+  try {
+    const registered = await navigator.serviceWorker.register('./sw.js');
+
+    // Lets the worker wake up to catch missed reminders (installed PWAs on Chromium)
+    await registered.periodicSync
+      ?.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL })
+      .catch(() => undefined);
+    return registered;
+  } catch (err) {
+    // getActiveWorker reports no worker, so the page checks reminders itself; the error log keeps the cause
+    logError(err);
+    return null;
+  }
+};
+
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  const registered = await register();
+  settleRegistration(registered);
+  return registered;
+};
+
+/**
+ * The worker controlling reminders, or null when there isn't one: no
+ * support, a failed registration, or a worker that doesn't activate in
+ * time (`ready` never settles when installing fails).
+ */
+export const getActiveWorker = async (): Promise<ServiceWorker | null> => {
+  if (!(await registration)) return null;
+  const timeout = new Promise<null>(resolve => setTimeout(() => resolve(null), WORKER_READY_TIMEOUT_MS));
+  const ready = await Promise.race([navigator.serviceWorker.ready, timeout]);
+  return ready?.active ?? null;
+};
+
+const postToWorker = async (message: unknown) => {
+  const worker = await getActiveWorker();
+  if (!worker) return false;
+  worker.postMessage(message);
+  return true;
+};
+
+// Replaces the worker's stored schedule; it shows anything already due right away
+export const syncReminderSchedule = (reminders: ScheduledReminder[]) =>
+  postToWorker({ type: 'SCHEDULE_REMINDERS', reminders });
+
+export const requestReminderCheck = () => postToWorker({ type: 'CHECK_REMINDERS' });
+
+// Latest today summary, served by the worker as ./today.json for widgets
+export const syncTodaySummary = (summary: TodaySummary) => postToWorker({ type: 'TODAY_SUMMARY', summary });
@@ -0,0 +1,71 @@
+import { ClassSlot, ExtraSession, SlotKind, Subject } from '../types';
+import { DEFAULT_SLOT_DURATION, SLOT_WEIGHTS } from '../constants';
+import { bySlotTime, getSlotsForDay } from './slots';
+import { getWeekday } from './dates';
+import { createId } from './ids';
+
+/**
+ * Extra sessions sit on top of the weekly slots. A plain session adds a
+ * class on its date; one with `movedFrom` also removes that weekly slot
+ * from the original date, so a rescheduled class is only counted once.
+ * Sessions are turned into ClassSlots (same id) so records, reminders and
+ * projections handle them like any other class.
+ */
+
+export const createSession = (date: string, startTime?: string, kind: SlotKind = 'LECTURE', note?: string): ExtraSession => ({
+  id: createId('session'),
+  date,
+  startTime,
+  durationMinutes: DEFAULT_SLOT_DURATION,
+  weight: SLOT_WEIGHTS[kind],
+  kind,
+  ...(note ? { note } : {}),
+});
+
+// Moves one weekly class to another day, keeping its length, weight and (unless given) time
+export const createMovedSession = (slot: ClassSlot, from: string, to: string, startTime: string | undefined = slot.startTime): ExtraSession => ({
+  ...createSession(to, startTime, slot.kind),
+  durationMinutes: slot.durationMinutes,
+  weight: slot.weight,
+  movedFrom: { date: from, slotId: slot.id },
+});
+
+export const sessionToSlot = ({ id, date, startTime, durationMinutes, weight, kind }: ExtraSession): ClassSlot => ({
+  id,
+  day: getWeekday(date),
+  startTime,
+  durationMinutes,
+  weight,
+  kind,
+});
+
+export const getSessionsOnDate = (subject: Subject, date: string): ExtraSession[] =>
+  (subject.sessions ?? []).filter(session => session.date === date);
+
+// Weekly slots moved away from this date
+const getMovedAwaySlotIds = (subject: Subject, date: string): Set<string> =>
+  new Set((subject.sessions ?? []).filter(s => s.movedFrom?.date === date).map(s => s.movedFrom!.slotId));
+
+/**
+ * Every class on the subject's timetable for a date: the weekday's slots
+ * minus any moved elsewhere, plus sessions on that date, in start-time
+ * order. Date bounds and holidays are not applied here, see isClassDay.
+ */
+export const getSlotsOnDate = (subject: Subject, date: string): ClassSlot[] => {
+  const movedAway = getMovedAwaySlotIds(subject, date);
+  return [
+    ...getSlotsForDay(subject, getWeekday(date)).filter(slot => !movedAway.has(slot.id)),
+    ...getSessionsOnDate(subject, date).map(sessionToSlot),
+  ].sort(bySlotTime);
+};
+
+export const addSession = (subject: Subject, session: ExtraSession): Subject => ({
+  ...subject,
+  sessions: [...(subject.sessions ?? []), session],
+});
+
+// Removing a moved session puts the class back on its original date
+export const removeSession = (subject: Subject, sessionId: string): Subject => ({
+  ...subject,
+  sessions: (subject.sessions ?? []).filter(session => session.id !== sessionId),
+});
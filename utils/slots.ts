@@ -0,0 +1,59 @@
+import { ClassSlot, DayOfWeek, SlotKind, Subject } from '../types';
+import { DEFAULT_SLOT_DURATION, SLOT_WEIGHTS } from '../constants';
+import { timeToMinutes } from './dates';
+import { createId } from './ids';
+
+export const createSlot = (day: DayOfWeek, startTime?: string, kind: SlotKind = 'LECTURE'): ClassSlot => ({
+  id: createId('slot'),
+  day,
+  startTime,
+  durationMinutes: DEFAULT_SLOT_DURATION,
+  weight: SLOT_WEIGHTS[kind],
+  kind,
+});
+
+export const bySlotTime = (a: ClassSlot, b: ClassSlot) => {
+  if (!a.startTime) return b.startTime ? 1 : 0;
+  if (!b.startTime) return -1;
+  return timeToMinutes(a.startTime) - timeToMinutes(b.startTime);
+};
+
+/**
+ * Weekly slots for a subject. Subjects created before slots existed only have
+ * `schedule` + `startTime`, so those are expanded into one lecture per day.
+ */
+export const getSubjectSlots = (subject: Subject): ClassSlot[] => {
+  if (subject.slots && subject.slots.length > 0) return subject.slots;
+
+  return subject.schedule.map(day => ({
+    id: `legacy-${day}`,
+    day,
+    startTime: subject.startTime,
+    durationMinutes: DEFAULT_SLOT_DURATION,
+    weight: SLOT_WEIGHTS.LECTURE,
+    kind: 'LECTURE' as const,
+  }));
+};
+
+export const getSlotsForDay = (subject: Subject, day: DayOfWeek): ClassSlot[] =>
+  getSubjectSlots(subject).filter(slot => slot.day === day).sort(bySlotTime);
+
+// Attendance units held on a weekday (sum of slot weights)
+export const getUnitsForDay = (subject: Subject, day: DayOfWeek): number =>
+  getSlotsForDay(subject, day).reduce((sum, slot) => sum + slot.weight, 0);
+
+/**
+ * Keeps the legacy `schedule`/`startTime` fields in step with `slots`, so code
+ * that only understands the weekly day list still sees the right days.
+ */
+export const syncScheduleFromSlots = (subject: Subject): Subject => {
+  if (!subject.slots || subject.slots.length === 0) return subject;
+
+  const sorted = [...subject.slots].sort(bySlotTime);
+  const schedule = Array.from(new Set(sorted.map(slot => slot.day))).sort((a, b) => a - b);
+  return {
+    ...subject,
+    schedule,
+    startTime: sorted[0].startTime,
+  };
+};
@@ -0,0 +1,141 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_HOLIDAY_SET_ID, DEFAULT_SETTINGS } from '../constants';
+import { getQuarantine, loadState, saveState, SCHEMA_VERSION } from './storage';
+
+// jsdom has no IndexedDB, so these run against the localStorage backend
+const STATE_KEY = 'smartskip_state';
+
+const legacySubject = {
+  id: 'physics',
+  name: 'Physics',
+  attended: 1,
+  total: 2,
+  schedule: [1],
+  startDate: '2026-01-05',
+  endDate: '2026-04-30',
+  history: [
+    { date: '2026-01-05', status: 'PRESENT', timestamp: 1 },
+    { date: '2026-01-12', status: 'ABSENT', timestamp: 2 },
+  ],
+};
+
+const storedState = () => JSON.parse(localStorage.getItem(STATE_KEY)!);
+
+beforeEach(() => localStorage.clear());
+
+describe('loadState', () => {
+  it('starts empty with defaults when nothing is stored', async () => {
+    const { state, migratedFrom, readOnly } = await loadState();
+    expect(state.subjects).toEqual([]);
+    expect(state.settings).toEqual(DEFAULT_SETTINGS);
+    expect(state.holidaySets.map(set => set.id)).toEqual([DEFAULT_HOLIDAY_SET_ID]);
+    expect(migratedFrom).toBeUndefined();
+    expect(readOnly).toBeUndefined();
+  });
+
+  it('migrates the pre-envelope keys and removes them', async () => {
+    localStorage.setItem('smartskip_data_v1', JSON.stringify([legacySubject]));
+    localStorage.setItem('smartskip_settings_v2', JSON.stringify({ targetPercentage: 0.8 }));
+
+    const { state, migratedFrom } = await loadState();
+    expect(migratedFrom).toBe(1);
+    expect(state.subjects).toHaveLength(1);
+    expect(state.subjects[0].history.every(r => typeof r.id === 'string')).toBe(true);
+    expect(state.subjects[0].timeZone).toBeTruthy();
+    expect(state.subjects[0].semesterId).toBe(state.activeSemesterId);
+    expect(state.settings.targetPercentage).toBe(0.8);
+
+    expect(localStorage.getItem('smartskip_data_v1')).toBeNull();
+    expect(storedState().version).toBe(SCHEMA_VERSION);
+  });
+
+  it('migrates an older envelope one version at a time', async () => {
+    localStorage.setItem(STATE_KEY, JSON.stringify({ version: 3, subjects: [legacySubject], semesters: [] }));
+
+    const { state, migratedFrom } = await loadState();
+    expect(migratedFrom).toBe(3);
+    expect(state.trash).toEqual([]);
+    expect(state.subjects[0].timeZone).toBeTruthy();
+    expect(storedState().version).toBe(SCHEMA_VERSION);
+  });
+
+  it('falls back to defaults for mistyped settings', async () => {
+    localStorage.setItem(STATE_KEY, JSON.stringify({
+      version: SCHEMA_VERSION,
+      subjects: [],
+      settings: { targetPercentage: '90%', classReminderLead: 30 },
+    }));
+
+    const { state } = await loadState();
+    expect(state.settings.targetPercentage).toBe(DEFAULT_SETTINGS.targetPercentage);
+    expect(state.settings.classReminderLead).toBe(30);
+  });
+
+  it('drops a stored custom profile that is missing rule fields', async () => {
+    const customProfile = { id: 'custom', name: 'Custom', theoryTarget: 0.8, labTarget: 0.8, dangerMargin: 0.05, dangerBunks: 1 };
+    localStorage.setItem(STATE_KEY, JSON.stringify({ version: SCHEMA_VERSION, settings: { customProfile } }));
+    expect((await loadState()).state.settings.customProfile).toEqual(customProfile);
+
+    localStorage.setItem(STATE_KEY, JSON.stringify({ version: SCHEMA_VERSION, settings: { customProfile: { dangerBunks: 'two' } } }));
+    expect((await loadState()).state.settings.customProfile).toBeUndefined();
+  });
+
+  it('quarantines subjects with records of an unknown status', async () => {
+    const badRecord = { ...legacySubject, history: [{ id: 'r', date: '2026-01-05', status: 'EXCUSED', timestamp: 1 }] };
+    localStorage.setItem(STATE_KEY, JSON.stringify({ version: SCHEMA_VERSION, subjects: [badRecord] }));
+
+    const { state, quarantined } = await loadState();
+    expect(state.subjects).toEqual([]);
+    expect(quarantined).toHaveLength(1);
+  });
+
+  it('quarantines unreadable subjects and keeps the rest', async () => {
+    localStorage.setItem(STATE_KEY, JSON.stringify({
+      version: SCHEMA_VERSION,
+      subjects: [legacySubject, { name: 'Broken', schedule: 'Mondays' }],
+    }));
+
+    const { state, quarantined } = await loadState();
+    expect(state.subjects.map(s => s.name)).toEqual(['Physics']);
+    expect(quarantined.map(entry => entry.reason)).toEqual(['Unreadable subject "Broken"']);
+    expect(await getQuarantine()).toHaveLength(1);
+  });
+
+  it('refreshes the built-in holiday set until it has been edited', async () => {
+    const stale = { id: DEFAULT_HOLIDAY_SET_ID, name: 'Old', ranges: [], updatedAt: 0 };
+    localStorage.setItem(STATE_KEY, JSON.stringify({ version: SCHEMA_VERSION, holidaySets: [stale] }));
+    expect((await loadState()).state.holidaySets[0].ranges.length).toBeGreaterThan(0);
+
+    localStorage.setItem(STATE_KEY, JSON.stringify({ version: SCHEMA_VERSION, holidaySets: [{ ...stale, updatedAt: 1 }] }));
+    expect((await loadState()).state.holidaySets[0].ranges).toEqual([]);
+  });
+
+  it('leaves data from a newer version untouched', async () => {
+    const newer = JSON.stringify({ version: SCHEMA_VERSION + 1, subjects: [legacySubject] });
+    localStorage.setItem(STATE_KEY, newer);
+
+    const { state, readOnly } = await loadState();
+    expect(readOnly).toBe('NEWER_VERSION');
+    expect(state.subjects).toEqual([]);
+    expect(localStorage.getItem(STATE_KEY)).toBe(newer);
+  });
+
+  it('keeps unreadable data instead of saving over it', async () => {
+    localStorage.setItem(STATE_KEY, '{"version": 5, "subjects": [');
+
+    const { readOnly, quarantined } = await loadState();
+    expect(readOnly).toBe('UNREADABLE');
+    expect(quarantined).toHaveLength(1);
+    expect(localStorage.getItem(STATE_KEY)).toBe('{"version": 5, "subjects": [');
+  });
+});
+
+describe('saveState', () => {
+  it('round-trips through loadState', async () => {
+    const { state } = await loadState();
+    await saveState({ ...state, settings: { ...state.settings, leaveCap: 0.2 } });
+    expect(storedState().version).toBe(SCHEMA_VERSION);
+    expect((await loadState()).state.settings.leaveCap).toBe(0.2);
+  });
+});
@@ -0,0 +1,430 @@
+import { AppSettings, HolidaySet, Semester, Subject, TrashEntry } from '../types';
+import { DEFAULT_HOLIDAY_SET_ID, DEFAULT_SETTINGS } from '../constants';
+import { getDefaultHolidaySet } from './holidays';
+import { ensureSemesters, isArchived, sortSemesters } from './semesters';
+import { purgeExpiredTrash } from './mutations';
+import { getDeviceTimeZone } from './dates';
+import { createId } from './ids';
+import { isObject, isValidHolidaySet, isValidRuleProfile, isValidSemester, isValidSubject } from './validation';
+
+/**
+ * Versioned persistence for everything the app stores.
+ *
+ * The whole state is saved as one envelope `{ version, subjects, settings,
+ * holidaySets, semesters, activeSemesterId, trash }` in IndexedDB (falling back to localStorage). On load the
+ * envelope is migrated up to SCHEMA_VERSION one step at a time, then
+ * validated; anything that fails validation is copied to a quarantine list
+ * instead of crashing the app or being silently dropped.
+ */
+
+export const SCHEMA_VERSION = 5;
+
+export interface PersistedState {
+  version: number;
+  subjects: Subject[];
+  settings: AppSettings;
+  holidaySets: HolidaySet[];
+  semesters: Semester[];
+  activeSemesterId: string;
+  trash: TrashEntry[]; // Soft-deleted subjects, purged after TRASH_RETENTION_DAYS
+}
+
+export interface QuarantineEntry {
+  id: string;
+  reason: string;
+  raw: string;
+  at: number;
+}
+
+export interface LoadResult {
+  state: PersistedState;
+  quarantined: QuarantineEntry[]; // Entries added during this load
+  migratedFrom?: number;
+  // Set when the stored state can't be used as-is; nothing has been saved over it
+  readOnly?: 'NEWER_VERSION' | 'UNREADABLE';
+}
+
+// --- Backends ---
+
+interface StorageBackend {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+}
+
+export const DB_NAME = 'smartskip';
+// The service worker's store (reminder schedule, notification log); public/sw.js opens it by the same names
+export const SW_DB_NAME = 'smartskip-sw';
+export const STORE_NAME = 'kv';
+
+const openDatabase = (name: string): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Each database is opened once per session; a failed open is retried next time
+const databases = new Map<string, Promise<IDBDatabase>>();
+const getDatabase = (name: string): Promise<IDBDatabase> => {
+  let db = databases.get(name);
+  if (!db) {
+    db = openDatabase(name);
+    db.catch(() => databases.delete(name));
+    databases.set(name, db);
+  }
+  return db;
+};
+
+// Runs one request against a database's key/value store
+export const runInStore = <T>(dbName: string, mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  getDatabase(dbName).then(db => new Promise<T>((resolve, reject) => {
+    const request = op(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+
+const indexedDBBackend: StorageBackend = {
+  get: key => runInStore<string | undefined>(DB_NAME, 'readonly', store => store.get(key)).then(value => value ?? null),
+  set: (key, value) => runInStore(DB_NAME, 'readwrite', store => store.put(value, key)).then(() => undefined),
+};
+
+const localStorageBackend: StorageBackend = {
+  get: async key => localStorage.getItem(`smartskip_${key}`),
+  set: async (key, value) => localStorage.setItem(`smartskip_${key}`, value),
+};
+
+// IndexedDB can be missing or refuse to open (private browsing, blocked
+// storage); localStorage takes over for the rest of the session
+let backendPromise: Promise<StorageBackend> | null = null;
+const getBackend = (): Promise<StorageBackend> =>
+  (backendPromise = backendPromise || (typeof indexedDB === 'undefined'
+    ? Promise.resolve(localStorageBackend)
+    : getDatabase(DB_NAME).then(() => indexedDBBackend, () => localStorageBackend)));
+
+const backend: StorageBackend = {
+  get: key => getBackend().then(b => b.get(key)),
+  set: (key, value) => getBackend().then(b => b.set(key, value)),
+};
+
+const STATE_KEY = 'state';
+const QUARANTINE_KEY = 'quarantine';
+
+// Pre-envelope keys, read once and migrated as schema version 1
+const LEGACY_KEYS = {
+  subjects: 'smartskip_data_v1',
+  settings: 'smartskip_settings_v2',
+  holidaySets: 'smartskip_holidays_v1',
+};
+
+// --- Migrations ---
+
+// A stored envelope before validation: any version, fields not yet trusted
+type Envelope = Record<string, unknown> & { version: number };
+
+const isEnvelope = (value: unknown): value is Envelope => isObject(value) && typeof value.version === 'number';
+
+// Entries that aren't objects are passed through untouched for validate() to quarantine
+const withRecordIds = (s: unknown) => isObject(s)
+  ? {
+      ...s,
+      history: Array.isArray(s.history)
+        ? s.history.map((r: unknown, i: number) => (isObject(r) ? { ...r, id: r.id || `${s.id}-${r.date}-${i}` } : r))
+        : [],
+    }
+  : s;
+
+// MIGRATIONS[n] upgrades data from version n + 1 to n + 2
+const MIGRATIONS: ((data: Envelope) => Envelope)[] = [
+  // v1 -> v2: legacy separate keys become one envelope; records gain ids
+  data => ({
+    version: 2,
+    subjects: Array.isArray(data.subjects) ? data.subjects.map(withRecordIds) : data.subjects,
+    settings: data.settings,
+    holidaySets: data.holidaySets,
+  }),
+  // v2 -> v3: semesters; validate() adopts existing subjects into one spanning their dates
+  data => ({ ...data, version: 3, semesters: [] }),
+  // v3 -> v4: soft-delete bin
+  data => ({ ...data, version: 4, trash: [] }),
+  // v4 -> v5: subjects record their time zone; existing ones were entered on this device
+  data => {
+    const timeZone = getDeviceTimeZone();
+    const withZone = (s: unknown) => (isObject(s) && !s.timeZone ? { ...s, timeZone } : s);
+    return {
+      ...data,
+      version: 5,
+      subjects: Array.isArray(data.subjects) ? data.subjects.map(withZone) : data.subjects,
+      trash: Array.isArray(data.trash)
+        ? data.trash.map((entry: unknown) => (isObject(entry) ? { ...entry, subject: withZone(entry.subject) } : entry))
+        : data.trash,
+    };
+  },
+];
+
+const migrate = (data: Envelope): Envelope => {
+  let current = data;
+  while (current.version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[current.version - 1];
+    if (!step) throw new Error(`No migration from schema version ${current.version}`);
+    current = step(current);
+  }
+  return current;
+};
+
+// --- Validation ---
+
+// The built-in set picks up newly added years until the user edits it
+const isUneditedDefaultSet = (set: HolidaySet): boolean =>
+  set.id === DEFAULT_HOLIDAY_SET_ID && set.updatedAt === 0;
+
+// Only called on entries isValidSubject accepted
+const normalizeSubject = (s: unknown): Subject => {
+  const subject = s as Subject;
+  return {
+    ...subject,
+    id: subject.id || createId('restored'),
+    attended: Number(subject.attended) || 0,
+    total: Number(subject.total) || 0,
+  };
+};
+
+// A stored value is only taken when it has the same type as the default
+const isSettingValue = <K extends keyof AppSettings>(key: K, value: unknown): value is AppSettings[K] =>
+  typeof value === typeof DEFAULT_SETTINGS[key];
+
+const copySetting = <K extends keyof AppSettings>(settings: AppSettings, key: K, value: unknown) => {
+  if (isSettingValue(key, value)) settings[key] = value;
+};
+
+// Unknown or mistyped settings fall back to their defaults
+const normalizeSettings = (raw: unknown): AppSettings => {
+  const settings = { ...DEFAULT_SETTINGS };
+  if (isObject(raw)) {
+    (Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]).forEach(key => copySetting(settings, key, raw[key]));
+    if (isValidRuleProfile(raw.customProfile)) {
+      settings.customProfile = raw.customProfile;
+    }
+  }
+  return settings;
+};
+
+const makeQuarantineEntry = (reason: string, value: unknown): QuarantineEntry => ({
+  id: createId('quarantine'),
+  reason,
+  raw: typeof value === 'string' ? value : JSON.stringify(value),
+  at: Date.now(),
+});
+
+// Name to show in a quarantine reason
+const nameOf = (value: unknown): string =>
+  isObject(value) && typeof value.name === 'string' ? value.name : 'unknown';
+
+const validate = (data: Record<string, unknown>): { state: PersistedState; rejected: QuarantineEntry[] } => {
+  const rejected: QuarantineEntry[] = [];
+
+  const subjects: unknown[] = Array.isArray(data.subjects) ? data.subjects : [];
+  if (!Array.isArray(data.subjects) && data.subjects !== undefined) {
+    rejected.push(makeQuarantineEntry('Subject list is not an array', data.subjects));
+  }
+  const validSubjects = subjects.filter(s => {
+    if (isValidSubject(s)) return true;
+    rejected.push(makeQuarantineEntry(`Unreadable subject "${nameOf(s)}"`, s));
+    return false;
+  });
+
+  const holidaySets = Array.isArray(data.holidaySets)
+    ? (data.holidaySets as unknown[]).filter(set => {
+        if (isValidHolidaySet(set)) return true;
+        rejected.push(makeQuarantineEntry(`Unreadable holiday set "${nameOf(set)}"`, set));
+        return false;
+      }).map(set => isUneditedDefaultSet(set as HolidaySet) ? getDefaultHolidaySet() : set as HolidaySet)
+    : [getDefaultHolidaySet()];
+
+  const validSemesters = Array.isArray(data.semesters)
+    ? (data.semesters as unknown[]).filter(semester => {
+        if (isValidSemester(semester)) return true;
+        rejected.push(makeQuarantineEntry(`Unreadable semester "${nameOf(semester)}"`, semester));
+        return false;
+      }) as Semester[]
+    : [];
+  const { subjects: adopted, semesters } = ensureSemesters(validSubjects.map(normalizeSubject), validSemesters);
+
+  // Keep the stored choice if it still exists, else the newest open semester
+  const sorted = sortSemesters(semesters);
+  const activeSemesterId = semesters.find(s => s.id === data.activeSemesterId)?.id
+    ?? (sorted.find(s => !isArchived(s)) ?? sorted[0]).id;
+
+  // Binned subjects are checked like live ones; expired entries are dropped here
+  const trash = Array.isArray(data.trash)
+    ? purgeExpiredTrash((data.trash as unknown[]).filter(entry => {
+        if (isObject(entry) && typeof entry.deletedAt === 'number' && isValidSubject(entry.subject)) return true;
+        rejected.push(makeQuarantineEntry(`Unreadable deleted subject "${nameOf(isObject(entry) ? entry.subject : null)}"`, entry));
+        return false;
+      }) as TrashEntry[]).map(entry => {
+        const subject = normalizeSubject(entry.subject);
+        return { id: subject.id, subject, deletedAt: entry.deletedAt };
+      })
+    : [];
+
+  return {
+    state: {
+      version: SCHEMA_VERSION,
+      subjects: adopted,
+      settings: normalizeSettings(data.settings),
+      holidaySets,
+      semesters,
+      activeSemesterId,
+      trash,
+    },
+    rejected,
+  };
+};
+
+// --- Public API ---
+
+/**
+ * Subjects from an import file, checked like stored ones. Missing histories
+ * become empty and every subject joins `semesterId`, the semester being
+ * imported into; unreadable entries are counted and left out.
+ */
+export const readImportedSubjects = (raw: unknown, semesterId: string): { subjects: Subject[]; skipped: number } => {
+  const list: unknown[] = Array.isArray(raw) ? raw : [];
+  const subjects = list
+    .map(s => (isObject(s) ? { ...s, history: Array.isArray(s.history) ? s.history : [] } : s))
+    .filter(isValidSubject)
+    .map(s => ({ ...normalizeSubject(s), semesterId }));
+  return { subjects, skipped: list.length - subjects.length };
+};
+
+const parseJSON = (raw: string | null): { ok: true; value: unknown } | { ok: false } => {
+  if (raw === null) return { ok: true, value: undefined };
+  try {
+    return { ok: true, value: JSON.parse(raw) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+const readLegacyState = (rejected: QuarantineEntry[]): Envelope | null => {
+  const raw = {
+    subjects: localStorage.getItem(LEGACY_KEYS.subjects),
+    settings: localStorage.getItem(LEGACY_KEYS.settings),
+    holidaySets: localStorage.getItem(LEGACY_KEYS.holidaySets),
+  };
+  if (raw.subjects === null && raw.settings === null && raw.holidaySets === null) return null;
+
+  const legacy: Envelope = { version: 1 };
+  (Object.keys(raw) as (keyof typeof raw)[]).forEach(key => {
+    const parsed = parseJSON(raw[key]);
+    if (parsed.ok) {
+      legacy[key] = parsed.value;
+    } else {
+      rejected.push(makeQuarantineEntry(`Corrupt legacy ${key}`, raw[key]));
+    }
+  });
+  return legacy;
+};
+
+export const getQuarantine = async (): Promise<QuarantineEntry[]> => {
+  const parsed = parseJSON(await backend.get(QUARANTINE_KEY));
+  return parsed.ok && Array.isArray(parsed.value) ? parsed.value : [];
+};
+
+const addToQuarantine = async (entries: QuarantineEntry[]) => {
+  if (entries.length === 0) return;
+  const existing = await getQuarantine();
+  await backend.set(QUARANTINE_KEY, JSON.stringify([...existing, ...entries]));
+};
+
+export const saveState = async (state: Omit<PersistedState, 'version'>): Promise<void> => {
+  await backend.set(STATE_KEY, JSON.stringify({ ...state, version: SCHEMA_VERSION }));
+};
+
+export const loadState = async (): Promise<LoadResult> => {
+  const rejected: QuarantineEntry[] = [];
+  const raw = await backend.get(STATE_KEY);
+
+  let data: unknown = null;
+  let readOnly: LoadResult['readOnly'];
+  const parsed = parseJSON(raw);
+  if (!parsed.ok) {
+    rejected.push(makeQuarantineEntry('Stored state is not valid JSON', raw));
+    readOnly = 'UNREADABLE';
+  } else if (parsed.value !== undefined) {
+    data = parsed.value;
+  }
+
+  // Written by a newer build (e.g. a stale tab or cached bundle): leave it untouched for that build
+  if (isEnvelope(data) && data.version > SCHEMA_VERSION) {
+    return { state: validate({}).state, quarantined: [], readOnly: 'NEWER_VERSION' };
+  }
+
+  const fromLegacy = data === null && raw === null;
+  if (fromLegacy) {
+    data = readLegacyState(rejected);
+  }
+
+  let migratedFrom: number | undefined;
+  let state: PersistedState;
+  try {
+    let envelope: Envelope = { version: SCHEMA_VERSION };
+    if (isEnvelope(data)) {
+      envelope = data;
+    } else if (data) {
+      rejected.push(makeQuarantineEntry('Stored state has no schema version', data));
+      if (!fromLegacy) readOnly = 'UNREADABLE';
+    }
+    if (envelope.version < SCHEMA_VERSION) migratedFrom = envelope.version;
+
+    const result = validate(migrate(envelope));
+    state = result.state;
+    rejected.push(...result.rejected);
+  } catch (err) {
+    rejected.push(makeQuarantineEntry(err instanceof Error ? err.message : 'Migration failed', data));
+    state = validate({}).state;
+    readOnly = 'UNREADABLE';
+  }
+
+  // A copy of anything unreadable is kept, but the stored state itself is
+  // only replaced once the user chooses to start over (see saveState)
+  await addToQuarantine(rejected);
+  let saved = false;
+  if (!readOnly && (migratedFrom !== undefined || rejected.length > 0)) {
+    await saveState(state);
+    saved = true;
+  }
+  // The legacy keys go only once their data is safely in the envelope
+  if (fromLegacy && saved) {
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+  }
+
+  return { state, quarantined: rejected, migratedFrom, readOnly };
+};
+
+// --- Crash recovery ---
+// These work on the stored data as-is, so they keep working when the data
+// itself is what crashes the app. See utils/recovery.
+
+export const readRawStorage = async (): Promise<{ state: string | null; quarantine: string | null }> => ({
+  state: await backend.get(STATE_KEY),
+  quarantine: await backend.get(QUARANTINE_KEY),
+});
+
+// The stored envelope migrated to SCHEMA_VERSION but not validated; null if unreadable
+export const readStoredEnvelope = async (): Promise<Envelope | null> => {
+  const parsed = parseJSON(await backend.get(STATE_KEY));
+  if (!parsed.ok || !isEnvelope(parsed.value)) return null;
+  if (parsed.value.version > SCHEMA_VERSION) return null;
+  try {
+    return migrate(parsed.value);
+  } catch {
+    return null;
+  }
+};
+
+// Writes a repaired envelope back; anything removed goes to the quarantine list first
+export const writeRepairedEnvelope = async (data: Record<string, unknown>, removed: { reason: string; value: unknown }[]): Promise<void> => {
+  await addToQuarantine(removed.map(({ reason, value }) => makeQuarantineEntry(reason, value)));
+  await backend.set(STATE_KEY, JSON.stringify({ ...data, version: SCHEMA_VERSION }));
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { AttendanceRecord, Subject } from '../types';
+import { createSyncBundle, mergeRecords, mergeSyncState, openSyncBundle, SyncState } from './sync';
+
+const record = (date: string, status: AttendanceRecord['status'], timestamp: number, id = `${date}-${timestamp}`): AttendanceRecord => ({
+  id,
+  date,
+  status,
+  timestamp,
+});
+
+const makeSubject = (overrides: Partial<Subject> = {}): Subject => ({
+  id: 'physics',
+  name: 'Physics',
+  attended: 0,
+  total: 0,
+  schedule: [1],
+  startDate: '2026-01-05',
+  endDate: '2026-04-30',
+  updatedAt: 1,
+  history: [],
+  ...overrides,
+});
+
+const state = (subjects: Subject[], trash: SyncState['trash'] = []): SyncState =>
+  ({ subjects, trash, holidaySets: [], semesters: [] });
+
+// Merging must give the same result whichever device does it
+const mergeBothWays = (a: SyncState, b: SyncState) => {
+  const merged = mergeSyncState(a, b);
+  expect(mergeSyncState(b, a).subjects).toEqual(merged.subjects);
+  return merged;
+};
+
+describe('mergeRecords', () => {
+  it('keeps the newest record per class, breaking ties by id', () => {
+    const { history } = mergeRecords(
+      [record('2026-01-05', 'PRESENT', 10), record('2026-01-12', 'PRESENT', 5, 'b')],
+      [record('2026-01-05', 'ABSENT', 20), record('2026-01-12', 'ABSENT', 5, 'a')]
+    );
+    expect(history.map(r => r.status)).toEqual(['ABSENT', 'PRESENT']);
+  });
+
+  it('drops records removed after they were written', () => {
+    const { history, removedRecords } = mergeRecords(
+      [record('2026-01-05', 'PRESENT', 10)],
+      [],
+      [{ key: '2026-01-05|', removedAt: 10 }]
+    );
+    expect(history).toEqual([]);
+    expect(removedRecords).toEqual([{ key: '2026-01-05|', removedAt: 10 }]);
+  });
+
+  it('keeps a record logged again after its removal and forgets the marker', () => {
+    const { history, removedRecords } = mergeRecords(
+      [record('2026-01-05', 'PRESENT', 30)],
+      [record('2026-01-05', 'ABSENT', 10)],
+      [{ key: '2026-01-05|', removedAt: 20 }]
+    );
+    expect(history.map(r => r.status)).toEqual(['PRESENT']);
+    expect(removedRecords).toEqual([]);
+  });
+});
+
+describe('mergeSyncState', () => {
+  it('merges concurrent edits to different classes of one subject', () => {
+    const local = makeSubject({ history: [record('2026-01-05', 'PRESENT', 10)] });
+    const remote = makeSubject({ name: 'Physics I', updatedAt: 2, history: [record('2026-01-12', 'ABSENT', 11)] });
+
+    const [merged] = mergeBothWays(state([local]), state([remote])).subjects;
+    expect(merged.name).toBe('Physics I');
+    expect(merged.history.map(r => r.date)).toEqual(['2026-01-05', '2026-01-12']);
+  });
+
+  it('does not bring back a record the other device deleted', () => {
+    const kept = record('2026-01-05', 'PRESENT', 10);
+    const local = makeSubject({ history: [kept] });
+    const remote = makeSubject({ removedRecords: [{ key: '2026-01-05|', removedAt: 15 }] });
+
+    const [merged] = mergeBothWays(state([local]), state([remote])).subjects;
+    expect(merged.history).toEqual([]);
+    expect(merged.removedRecords).toEqual([{ key: '2026-01-05|', removedAt: 15 }]);
+  });
+
+  it('restores a class logged again after the other device deleted it', () => {
+    const local = makeSubject({ history: [record('2026-01-05', 'ABSENT', 20)] });
+    const remote = makeSubject({ removedRecords: [{ key: '2026-01-05|', removedAt: 15 }] });
+
+    const [merged] = mergeBothWays(state([local]), state([remote])).subjects;
+    expect(merged.history.map(r => r.status)).toEqual(['ABSENT']);
+    expect(merged.removedRecords).toBeUndefined();
+  });
+
+  it('keeps a subject binned after its last edit deleted, and restores one edited since', () => {
+    const subject = makeSubject({ updatedAt: 10 });
+    const binned = state([], [{ id: 'physics', subject, deletedAt: 20 }]);
+
+    expect(mergeBothWays(state([subject]), binned).subjects).toEqual([]);
+
+    const edited = mergeBothWays(state([{ ...subject, updatedAt: 30 }]), binned);
+    expect(edited.subjects.map(s => s.id)).toEqual(['physics']);
+    expect(edited.trash).toEqual([]);
+  });
+});
+
+describe('openSyncBundle', () => {
+  it('round-trips a bundle and drops entries that fail validation', async () => {
+    const valid = makeSubject({ history: [record('2026-01-05', 'PRESENT', 1)] });
+    const payload = {
+      deviceId: 'device-1',
+      exportedAt: 1,
+      subjects: [valid, makeSubject({ id: 'broken', startDate: 'soon' }), { id: 'no-history', name: 'X' }],
+      trash: [{ id: 'old', subject: makeSubject({ id: 'old' }), deletedAt: 5 }, { id: 'bad', deletedAt: 5 }],
+      holidaySets: [{ id: 'campus', name: 'Campus', ranges: [] }, { id: 'bad', ranges: 'none' }],
+      semesters: [{ id: 'sem-1', name: 'Spring', startDate: '2026-01-01', endDate: '2026-05-31' }, { id: 'sem-2' }],
+    };
+
+    const bundle = await createSyncBundle(payload as never, 'secret');
+    const opened = await openSyncBundle(bundle, 'secret');
+    expect(opened.subjects).toEqual([valid]);
+    expect(opened.trash.map(entry => entry.id)).toEqual(['old']);
+    expect(opened.holidaySets).toEqual([{ id: 'campus', name: 'Campus', ranges: [], updatedAt: 0 }]);
+    expect(opened.semesters.map(semester => semester.id)).toEqual(['sem-1']);
+
+    await expect(openSyncBundle(bundle, 'wrong')).rejects.toThrow();
+  });
+});
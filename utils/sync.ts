@@ -0,0 +1,283 @@
+import { AttendanceRecord, HolidaySet, RemovedRecord, Semester, Subject, TrashEntry } from '../types';
+import { createId } from './ids';
+import { recordKey } from './consistency';
+import { isFiniteNumber, isObject, isValidHolidaySet, isValidSemester, isValidSubject } from './validation';
+import { canCompress, compress, decompress, fromBase64, toBase64 } from './encoding';
+
+/**
+ * Device-to-device sync without a server.
+ *
+ * A device exports its data as a passphrase-encrypted bundle (AES-GCM with a
+ * PBKDF2-derived key) that travels as a file or as a run of QR codes. The
+ * receiving device decrypts it and merges it into its own data with
+ * mergeSyncState, which gives the same result whichever device merges
+ * which, so two devices converge after syncing both ways.
+ */
+
+export const SYNC_FORMAT = 'smartskip-sync';
+export const SYNC_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 210000;
+const QR_PREFIX = 'SSK1';
+const QR_CHUNK_SIZE = 600; // Characters per code; small enough to scan from a phone screen
+
+export interface SyncPayload {
+  deviceId: string;
+  exportedAt: number;
+  subjects: Subject[];
+  trash: TrashEntry[];
+  holidaySets: HolidaySet[];
+  semesters: Semester[];
+}
+
+export interface SyncBundle {
+  format: typeof SYNC_FORMAT;
+  version: number;
+  createdAt: number;
+  compressed: boolean; // Payload was deflated before encryption
+  salt: string;        // base64
+  iv: string;          // base64
+  data: string;        // base64 ciphertext
+}
+
+// --- Encryption ---
+
+const deriveKey = async (passphrase: string, salt: ArrayBuffer): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Identifies this browser in bundles; stays the same across sessions
+export const getDeviceId = (): string => {
+  const key = 'smartskip_device_id';
+  let id = localStorage.getItem(key);
+  if (!id) {
+    id = createId('device');
+    localStorage.setItem(key, id);
+  }
+  return id;
+};
+
+// --- Bundles ---
+
+export const createSyncBundle = async (payload: SyncPayload, passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16)).buffer;
+  const iv = crypto.getRandomValues(new Uint8Array(12)).buffer;
+  const compressed = canCompress();
+
+  let plain = new TextEncoder().encode(JSON.stringify(payload)).buffer;
+  if (compressed) plain = await compress(plain);
+
+  const key = await deriveKey(passphrase, salt);
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain);
+
+  const bundle: SyncBundle = {
+    format: SYNC_FORMAT,
+    version: SYNC_VERSION,
+    createdAt: Date.now(),
+    compressed,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(cipher),
+  };
+  return JSON.stringify(bundle);
+};
+
+// Merging matches subjects by id and records by id and timestamp, so those must be there too
+const isSyncableSubject = (subject: unknown) =>
+  isValidSubject(subject) &&
+  isObject(subject) && typeof subject.id === 'string' &&
+  subject.history.every((record: Record<string, unknown>) => typeof record.id === 'string' && isFiniteNumber(record.timestamp));
+
+// Entries that fail the check are dropped rather than merged
+const validItems = <T>(value: unknown, isValid: (item: unknown) => boolean): T[] =>
+  Array.isArray(value) ? value.filter(isValid) : [];
+
+// Throws with a message fit for the user when the bundle can't be opened
+export const openSyncBundle = async (text: string, passphrase: string): Promise<SyncPayload> => {
+  let bundle: SyncBundle;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new Error('This is not a SmartSkip sync file');
+  }
+  if (bundle?.format !== SYNC_FORMAT) throw new Error('This is not a SmartSkip sync file');
+  if (bundle.version > SYNC_VERSION) throw new Error('This sync file comes from a newer version of the app');
+  if (bundle.compressed && !canCompress()) throw new Error('This browser cannot read compressed sync files');
+
+  let plain: ArrayBuffer;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(bundle.salt));
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(bundle.iv) }, key, fromBase64(bundle.data));
+  } catch {
+    throw new Error('Wrong passphrase, or the file is damaged');
+  }
+  if (bundle.compressed) plain = await decompress(plain);
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(plain));
+  } catch {
+    throw new Error('The sync file is damaged');
+  }
+  if (!isObject(payload) || !Array.isArray(payload.subjects)) throw new Error('The sync file has no subjects');
+  return {
+    deviceId: String(payload.deviceId ?? 'unknown'),
+    exportedAt: Number(payload.exportedAt) || 0,
+    subjects: validItems<Subject>(payload.subjects, isSyncableSubject),
+    trash: validItems<TrashEntry>(payload.trash, entry => isObject(entry) && isFiniteNumber(entry.deletedAt) && isSyncableSubject(entry.subject))
+      .map(entry => ({ ...entry, id: entry.subject.id })),
+    holidaySets: validItems<HolidaySet>(payload.holidaySets, isValidHolidaySet)
+      .map(set => ({ ...set, updatedAt: Number(set.updatedAt) || 0 })),
+    semesters: validItems<Semester>(payload.semesters, isValidSemester),
+  };
+};
+
+// --- QR transfer ---
+
+// "SSK1|<transfer id>|<index>|<count>|<chunk>", one string per QR code
+export const splitForQR = (bundleText: string): string[] => {
+  const transferId = Math.random().toString(36).substr(2, 6);
+  const count = Math.ceil(bundleText.length / QR_CHUNK_SIZE);
+  return Array.from({ length: count }, (_, i) =>
+    [QR_PREFIX, transferId, i, count, bundleText.slice(i * QR_CHUNK_SIZE, (i + 1) * QR_CHUNK_SIZE)].join('|')
+  );
+};
+
+export interface QRProgress {
+  transferId: string;
+  count: number;
+  chunks: Record<number, string>;
+}
+
+/**
+ * Folds one scanned code into the progress so far. Codes can arrive in any
+ * order and repeat; a code from a different transfer starts over.
+ */
+export const addQRChunk = (progress: QRProgress | null, scanned: string): QRProgress | null => {
+  const [prefix, transferId, index, count, ...rest] = scanned.split('|');
+  if (prefix !== QR_PREFIX || rest.length === 0) return progress;
+
+  const base = progress?.transferId === transferId
+    ? progress
+    : { transferId, count: Number(count), chunks: {} };
+  return { ...base, chunks: { ...base.chunks, [Number(index)]: rest.join('|') } };
+};
+
+export const getQRBundle = (progress: QRProgress | null): string | null => {
+  if (!progress || Object.keys(progress.chunks).length < progress.count) return null;
+  return Array.from({ length: progress.count }, (_, i) => progress.chunks[i]).join('');
+};
+
+// --- Merge ---
+
+// Total order so both devices pick the same winner: newest timestamp, then id
+const newerRecord = (a: AttendanceRecord, b: AttendanceRecord) => {
+  if (a.timestamp !== b.timestamp) return a.timestamp > b.timestamp ? a : b;
+  return a.id >= b.id ? a : b;
+};
+
+const contentKey = (value: unknown) => JSON.stringify(value);
+
+// Same idea for whole items: newest updatedAt, then a stable content comparison
+const newerItem = <T>(a: T, b: T, updatedAt: (item: T) => number): T => {
+  if (updatedAt(a) !== updatedAt(b)) return updatedAt(a) > updatedAt(b) ? a : b;
+  return contentKey(a) >= contentKey(b) ? a : b;
+};
+
+const latestRemovals = (removed: RemovedRecord[]) => {
+  const latest = new Map<string, number>();
+  removed.forEach(({ key, removedAt }) => latest.set(key, Math.max(latest.get(key) ?? removedAt, removedAt)));
+  return latest;
+};
+
+/**
+ * Merges two histories and their removal markers. A record removed at or
+ * after its timestamp stays removed; logging the class again gives it a newer
+ * timestamp, which restores it. Markers that a newer record has superseded
+ * are dropped.
+ */
+export const mergeRecords = (
+  a: AttendanceRecord[],
+  b: AttendanceRecord[],
+  removed: RemovedRecord[] = []
+): { history: AttendanceRecord[]; removedRecords: RemovedRecord[] } => {
+  const merged = new Map<string, AttendanceRecord>();
+  [...a, ...b].forEach(record => {
+    const key = recordKey(record);
+    const existing = merged.get(key);
+    merged.set(key, existing ? newerRecord(existing, record) : record);
+  });
+
+  const removals = latestRemovals(removed);
+  removals.forEach((removedAt, key) => {
+    const record = merged.get(key);
+    if (!record) return;
+    if (removedAt >= record.timestamp) merged.delete(key);
+    else removals.delete(key);
+  });
+
+  return {
+    history: Array.from(merged.values()).sort((x, y) => x.date.localeCompare(y.date) || x.id.localeCompare(y.id)),
+    removedRecords: Array.from(removals, ([key, removedAt]) => ({ key, removedAt })).sort((x, y) => x.key.localeCompare(y.key)),
+  };
+};
+
+// Leaves removedRecords off subjects that have none, as they are stored
+const withHistory = (subject: Subject, { history, removedRecords }: ReturnType<typeof mergeRecords>): Subject => {
+  const { removedRecords: _removed, ...rest } = subject;
+  return removedRecords.length > 0 ? { ...rest, history, removedRecords } : { ...rest, history };
+};
+
+const subjectUpdatedAt = (subject: Subject) => subject.updatedAt ?? 0;
+
+// Keeps the local order; items only the other device has go at the end
+const mergeById = <T extends { id: string }>(a: T[], b: T[], pick: (x: T, y: T) => T): T[] => {
+  const merged = new Map(a.map(item => [item.id, item]));
+  b.forEach(item => {
+    const existing = merged.get(item.id);
+    merged.set(item.id, existing ? pick(existing, item) : item);
+  });
+  return Array.from(merged.values());
+};
+
+export type SyncState = Omit<SyncPayload, 'deviceId' | 'exportedAt'>;
+
+/**
+ * Merges two devices' data. Subjects are matched by id: their timetable
+ * fields come from the most recently edited side and their histories are
+ * merged record by record (same date and slot: newest timestamp wins, and a
+ * class unlogged after its record was written stays unlogged).
+ * A subject binned on one side stays deleted unless the other side edited
+ * it after it was deleted. Holiday sets follow updatedAt; a semester
+ * archived on either side stays archived.
+ */
+export const mergeSyncState = (local: SyncState, remote: SyncState): SyncState => {
+  const subjects = mergeById(local.subjects, remote.subjects, (a, b) => withHistory(
+    newerItem(a, b, subjectUpdatedAt),
+    mergeRecords(a.history, b.history, [...(a.removedRecords ?? []), ...(b.removedRecords ?? [])])
+  ));
+  const trash = mergeById(local.trash, remote.trash, (a, b) => newerItem(a, b, entry => entry.deletedAt));
+
+  const live = new Map(subjects.map(subject => [subject.id, subject]));
+  const keptTrash = trash.filter(entry => {
+    const subject = live.get(entry.id);
+    if (!subject) return true;
+    if (subjectUpdatedAt(subject) > entry.deletedAt) return false;
+    live.delete(entry.id);
+    return true;
+  });
+
+  return {
+    subjects: subjects.filter(subject => live.has(subject.id)),
+    trash: keptTrash,
+    holidaySets: mergeById(local.holidaySets, remote.holidaySets, (a, b) => newerItem(a, b, set => set.updatedAt)),
+    semesters: mergeById(local.semesters, remote.semesters, (a, b) => newerItem(a, b, semester => semester.archivedAt ?? 0)),
+  };
+};
@@ -0,0 +1,188 @@
+import { ClassSlot, HolidaySet, Subject } from '../types';
+import { DEFAULT_HOLIDAY_SET_ID } from '../constants';
+import { createImportedSubject, TimetableParseResult } from './timetableImport';
+import { getSubjectHolidaySets } from './holidays';
+import { createSlot, getSubjectSlots } from './slots';
+import { getSubjectTimeZone, isValidTimeZone, ISO_DATE } from './dates';
+import { createId } from './ids';
+import { canCompress, compress, decompress, fromBase64Url, toBase64Url } from './encoding';
+import { isObject, isValidHolidaySet, isValidSlotShape } from './validation';
+
+/**
+ * Timetable templates: a class section's subjects, weekly slots, date
+ * bounds and holiday sets, without anyone's attendance. A template is
+ * shared as a link (compressed into the URL fragment, which never reaches
+ * a server) or as a JSON file, and opening one pre-fills the timetable
+ * import review so nothing is added without a look.
+ */
+
+export const TEMPLATE_FORMAT = 'smartskip-timetable';
+export const TEMPLATE_VERSION = 1;
+export const TEMPLATE_HASH_KEY = 'template';
+
+export interface TemplateSubject {
+  name: string;
+  startDate: string;
+  endDate: string;
+  slots: Omit<ClassSlot, 'id'>[];
+  timeZone?: string;
+  targetPercentage?: number;
+  holidaySetIds: string[]; // Ids of sets in the template's holidaySets
+}
+
+export interface TimetableTemplate {
+  format: typeof TEMPLATE_FORMAT;
+  version: number;
+  name: string;
+  createdAt: number;
+  subjects: TemplateSubject[];
+  holidaySets: HolidaySet[];
+}
+
+export const createTemplate = (name: string, subjects: Subject[], holidaySets: HolidaySet[]): TimetableTemplate => {
+  const usedSets = new Map<string, HolidaySet>();
+  const templateSubjects = subjects.map(subject => {
+    const sets = getSubjectHolidaySets(subject, holidaySets);
+    sets.forEach(set => usedSets.set(set.id, set));
+    return {
+      name: subject.name,
+      startDate: subject.startDate,
+      endDate: subject.endDate,
+      slots: getSubjectSlots(subject).map(({ id, ...slot }) => slot),
+      timeZone: getSubjectTimeZone(subject),
+      targetPercentage: subject.targetPercentage,
+      holidaySetIds: sets.map(set => set.id),
+    };
+  });
+
+  return {
+    format: TEMPLATE_FORMAT,
+    version: TEMPLATE_VERSION,
+    name: name.trim() || 'Shared timetable',
+    createdAt: Date.now(),
+    subjects: templateSubjects,
+    holidaySets: Array.from(usedSets.values()),
+  };
+};
+
+// --- Encoding ---
+
+// "z.<data>" is deflated JSON, "j.<data>" plain JSON for browsers without CompressionStream
+export const encodeTemplate = async (template: TimetableTemplate): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(template)).buffer;
+  if (!canCompress()) return `j.${toBase64Url(json)}`;
+  return `z.${toBase64Url(await compress(json))}`;
+};
+
+export const getTemplateLink = async (template: TimetableTemplate, baseUrl: string = window.location.href): Promise<string> => {
+  const url = new URL(baseUrl);
+  url.search = '';
+  url.hash = `${TEMPLATE_HASH_KEY}=${await encodeTemplate(template)}`;
+  return url.toString();
+};
+
+// The encoded template in a location hash, if there is one
+export const readTemplateHash = (hash: string): string | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.get(TEMPLATE_HASH_KEY);
+};
+
+// --- Decoding ---
+
+const isValidTemplateSubject = (subject: unknown): boolean =>
+  isObject(subject) &&
+  typeof subject.name === 'string' && subject.name.trim() !== '' &&
+  ISO_DATE.test(subject.startDate) &&
+  ISO_DATE.test(subject.endDate) &&
+  Array.isArray(subject.slots) && subject.slots.length > 0 && subject.slots.every(isValidSlotShape) &&
+  Array.isArray(subject.holidaySetIds);
+
+// Throws with a message fit for the user when the template can't be read
+export const parseTemplate = (value: unknown): TimetableTemplate => {
+  const template = value as TimetableTemplate;
+  if (template?.format !== TEMPLATE_FORMAT) throw new Error('This is not a SmartSkip timetable');
+  if (template.version > TEMPLATE_VERSION) throw new Error('This timetable comes from a newer version of the app');
+  if (!Array.isArray(template.subjects)) throw new Error('The timetable has no subjects');
+
+  const subjects = template.subjects.filter(isValidTemplateSubject);
+  if (subjects.length === 0) throw new Error('The timetable has no readable subjects');
+
+  return {
+    ...template,
+    name: String(template.name ?? 'Shared timetable'),
+    subjects,
+    holidaySets: Array.isArray(template.holidaySets) ? template.holidaySets.filter(isValidHolidaySet) : [],
+  };
+};
+
+export const decodeTemplate = async (encoded: string): Promise<TimetableTemplate> => {
+  const [mode, data] = encoded.split('.', 2);
+  if (mode === 'z' && !canCompress()) throw new Error('This browser cannot open compressed timetable links');
+
+  let value: unknown;
+  try {
+    let json = fromBase64Url(data ?? '');
+    if (mode === 'z') json = await decompress(json);
+    else if (mode !== 'j') throw new Error('Unknown encoding');
+    value = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('This timetable link is incomplete or damaged');
+  }
+  return parseTemplate(value);
+};
+
+// --- Opening ---
+
+const sameRanges = (a: HolidaySet, b: HolidaySet) =>
+  a.ranges.length === b.ranges.length &&
+  a.ranges.every((range, i) => range.start === b.ranges[i].start && range.end === b.ranges[i].end);
+
+/**
+ * Turns a template into draft subjects for the import review. A shared
+ * holiday set is matched to a local one with the same name and dates;
+ * anything else is added as a new set.
+ */
+export const instantiateTemplate = (
+  template: TimetableTemplate,
+  localSets: HolidaySet[]
+): TimetableParseResult => {
+  const setIds = new Map<string, string>();
+  const newSets: HolidaySet[] = [];
+  template.holidaySets.forEach(set => {
+    const match = localSets.find(local =>
+      (local.id === set.id || local.name.trim().toLowerCase() === set.name.trim().toLowerCase()) && sameRanges(local, set)
+    );
+    if (match) {
+      setIds.set(set.id, match.id);
+      return;
+    }
+    const id = createId('holidays');
+    setIds.set(set.id, id);
+    newSets.push({ ...set, id, updatedAt: Date.now() });
+  });
+
+  const subjects = template.subjects.map(entry => {
+    const slots = entry.slots.map(slot => {
+      const created = createSlot(slot.day, slot.startTime, slot.kind);
+      return {
+        ...created,
+        durationMinutes: Number(slot.durationMinutes) || created.durationMinutes,
+        weight: Number(slot.weight) || created.weight,
+      };
+    });
+    const holidaySetIds = entry.holidaySetIds
+      .map(id => setIds.get(id))
+      .filter((id): id is string => Boolean(id));
+    return {
+      ...createImportedSubject(entry.name.trim(), slots, entry.startDate, entry.endDate),
+      timeZone: entry.timeZone && isValidTimeZone(entry.timeZone) ? entry.timeZone : undefined,
+      targetPercentage: typeof entry.targetPercentage === 'number' && entry.targetPercentage > 0 && entry.targetPercentage <= 1
+        ? entry.targetPercentage
+        : undefined,
+      // An empty list means "no holidays", so only fall back when every set was dropped as unreadable
+      holidaySetIds: holidaySetIds.length > 0 || entry.holidaySetIds.length === 0 ? holidaySetIds : [DEFAULT_HOLIDAY_SET_ID],
+    };
+  });
+
+  return { subjects, errors: [], holidaySets: newSets };
+};
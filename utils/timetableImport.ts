@@ -0,0 +1,262 @@
+import { AttendanceRecord, ClassSlot, DayOfWeek, HolidaySet, SlotKind, Subject } from '../types';
+import { DEFAULT_SEMESTER_WEEKS, DEFAULT_SLOT_DURATION, SLOT_WEIGHTS } from '../constants';
+import { createSlot, getSlotsForDay, syncScheduleFromSlots } from './slots';
+import { parseDateValue, parseICS } from './ical';
+import { addDays, timeToMinutes, getWeekday, ISO_DATE } from './dates';
+import { createId } from './ids';
+
+export interface TimetableParseResult {
+  subjects: Subject[];
+  errors: string[]; // Rows or events that were skipped, with the reason
+  holidaySets?: HolidaySet[]; // Sets the subjects refer to that aren't saved locally yet
+}
+
+const DAY_ALIASES: Record<string, DayOfWeek> = {
+  su: DayOfWeek.Sunday, sun: DayOfWeek.Sunday, sunday: DayOfWeek.Sunday,
+  mo: DayOfWeek.Monday, mon: DayOfWeek.Monday, monday: DayOfWeek.Monday,
+  tu: DayOfWeek.Tuesday, tue: DayOfWeek.Tuesday, tues: DayOfWeek.Tuesday, tuesday: DayOfWeek.Tuesday,
+  we: DayOfWeek.Wednesday, wed: DayOfWeek.Wednesday, wednesday: DayOfWeek.Wednesday,
+  th: DayOfWeek.Thursday, thu: DayOfWeek.Thursday, thur: DayOfWeek.Thursday, thurs: DayOfWeek.Thursday, thursday: DayOfWeek.Thursday,
+  fr: DayOfWeek.Friday, fri: DayOfWeek.Friday, friday: DayOfWeek.Friday,
+  sa: DayOfWeek.Saturday, sat: DayOfWeek.Saturday, saturday: DayOfWeek.Saturday,
+};
+
+const TIME = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+const parseDay = (value: string): DayOfWeek | null => {
+  const key = value.trim().toLowerCase();
+  if (key in DAY_ALIASES) return DAY_ALIASES[key];
+  const n = Number(key);
+  return Number.isInteger(n) && n >= 0 && n <= 6 ? n : null;
+};
+
+const normalizeTime = (value: string): string | undefined => {
+  const match = value.trim().match(TIME);
+  return match ? `${match[1].padStart(2, '0')}:${match[2]}` : undefined;
+};
+
+const parseKind = (value: string | undefined): SlotKind => {
+  const kind = (value || '').trim().toUpperCase();
+  return kind === 'LAB' || kind === 'TUTORIAL' ? kind : 'LECTURE';
+};
+
+export const createImportedSubject = (name: string, slots: ClassSlot[], startDate: string, endDate: string): Subject =>
+  syncScheduleFromSlots({
+    id: createId('imported'),
+    name,
+    attended: 0,
+    total: 0,
+    schedule: [],
+    startDate,
+    endDate,
+    slots,
+    history: [],
+    initialAttended: 0,
+    initialTotal: 0,
+  });
+
+// Small RFC 4180 reader: quoted fields, escaped quotes, CRLF
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+interface SubjectAccumulator {
+  name: string;
+  slots: ClassSlot[];
+  startDate: string;
+  endDate: string;
+  timeZone?: string;
+  cancelled: { date: string; slotId: string }[]; // Excluded occurrences (EXDATE)
+}
+
+// Returns the group, so callers can find the slot it kept for this day and time
+const addToGroup = (groups: Map<string, SubjectAccumulator>, name: string, slot: ClassSlot, startDate: string, endDate: string): SubjectAccumulator => {
+  const key = name.trim().toLowerCase();
+  const group = groups.get(key);
+  if (!group) {
+    const created = { name: name.trim(), slots: [slot], startDate, endDate, cancelled: [] };
+    groups.set(key, created);
+    return created;
+  }
+  const duplicate = group.slots.some(s => s.day === slot.day && s.startTime === slot.startTime);
+  if (!duplicate) group.slots.push(slot);
+  if (startDate < group.startDate) group.startDate = startDate;
+  if (endDate > group.endDate) group.endDate = endDate;
+  return group;
+};
+
+// Excluded occurrences are logged as cancelled, the same as a class called off later
+const toCancelledRecords = (subject: Subject, cancelled: SubjectAccumulator['cancelled']): AttendanceRecord[] =>
+  Array.from(new Map(cancelled.map(entry => [`${entry.date}|${entry.slotId}`, entry])).values())
+    .filter(({ date }) => subject.startDate <= date && date <= subject.endDate)
+    .map(({ date, slotId }) => ({
+      id: createId('record'),
+      date,
+      status: 'CANCELLED' as const,
+      timestamp: Date.now(),
+      ...(getSlotsForDay(subject, getWeekday(date)).length === 1 ? {} : { slotId }),
+    }));
+
+const toResult = (groups: Map<string, SubjectAccumulator>, errors: string[]): TimetableParseResult => ({
+  subjects: Array.from(groups.values()).map(g => {
+    const subject = createImportedSubject(g.name, g.slots, g.startDate, g.endDate);
+    return {
+      ...subject,
+      ...(g.timeZone ? { timeZone: g.timeZone } : {}),
+      history: toCancelledRecords(subject, g.cancelled),
+    };
+  }),
+  errors,
+});
+
+/**
+ * Reads a CSV with a header row containing: subject, day, start time,
+ * start date, end date. Optional columns: duration (minutes), type
+ * (lecture/lab/tutorial). Rows for the same subject become its slots.
+ */
+export const parseTimetableCSV = (text: string): TimetableParseResult => {
+  const [header, ...rows] = parseCSV(text);
+  if (!header) return { subjects: [], errors: ['File is empty'] };
+
+  const columns = header.map(h => h.trim().toLowerCase().replace(/[\s_-]+/g, ''));
+  const col = (...names: string[]) => columns.findIndex(c => names.includes(c));
+  const idx = {
+    subject: col('subject', 'name', 'course'),
+    day: col('day', 'weekday'),
+    startTime: col('starttime', 'time', 'start'),
+    startDate: col('startdate', 'from'),
+    endDate: col('enddate', 'to', 'until'),
+    duration: col('duration', 'minutes'),
+    kind: col('type', 'kind'),
+  };
+
+  const missing = (['subject', 'day', 'startDate', 'endDate'] as const).filter(key => idx[key] === -1);
+  if (missing.length > 0) {
+    return { subjects: [], errors: [`Missing column(s): ${missing.join(', ')}`] };
+  }
+
+  const groups = new Map<string, SubjectAccumulator>();
+  const errors: string[] = [];
+
+  rows.forEach((row, i) => {
+    const skip = (reason: string) => { errors.push(`Row ${i + 2}: ${reason}`); };
+    const cell = (index: number) => (index >= 0 ? (row[index] ?? '').trim() : '');
+    const name = cell(idx.subject);
+    const day = parseDay(cell(idx.day));
+    const startDate = cell(idx.startDate);
+    const endDate = cell(idx.endDate);
+
+    if (!name) return skip('subject name is empty');
+    if (day === null) return skip(`unknown day "${cell(idx.day)}"`);
+    if (!ISO_DATE.test(startDate) || !ISO_DATE.test(endDate)) return skip('dates must be YYYY-MM-DD');
+    if (endDate < startDate) return skip('end date is before start date');
+
+    const rawTime = cell(idx.startTime);
+    const startTime = rawTime ? normalizeTime(rawTime) : undefined;
+    if (rawTime && !startTime) return skip('start time must be HH:mm');
+
+    const slot = createSlot(day, startTime, parseKind(cell(idx.kind)));
+    const duration = Number(cell(idx.duration));
+    if (duration > 0) slot.durationMinutes = duration;
+
+    addToGroup(groups, name, slot, startDate, endDate);
+  });
+
+  return toResult(groups, errors);
+};
+
+/**
+ * Reads a university .ics feed. Weekly RRULEs expand to one slot per BYDAY;
+ * feeds that list every occurrence separately are folded into slots by
+ * weekday and start time.
+ */
+export const parseTimetableICS = (text: string): TimetableParseResult => {
+  const groups = new Map<string, SubjectAccumulator>();
+  const errors: string[] = [];
+
+  parseICS(text).forEach(event => {
+    if (event.allDay) {
+      errors.push(`"${event.summary}" on ${event.start}: all-day events are not classes`);
+      return;
+    }
+
+    const duration = event.endTime && event.end === event.start
+      ? timeToMinutes(event.endTime) - timeToMinutes(event.startTime!)
+      : DEFAULT_SLOT_DURATION;
+    const kind: SlotKind = /\blab\b/i.test(event.summary) ? 'LAB' : 'LECTURE';
+
+    let days = [getWeekday(event.start)];
+    let endDate = event.start;
+
+    if (event.rrule) {
+      if (event.rrule.FREQ !== 'WEEKLY') {
+        errors.push(`"${event.summary}": only weekly repeats are supported`);
+        return;
+      }
+      if (event.rrule.BYDAY) {
+        days = event.rrule.BYDAY.split(',')
+          .map(d => parseDay(d.replace(/^[+-]?\d+/, '')))
+          .filter((d): d is DayOfWeek => d !== null);
+      }
+      if (event.rrule.UNTIL) {
+        endDate = parseDateValue(event.rrule.UNTIL, event.timeZone)?.date ?? endDate;
+      } else if (event.rrule.COUNT) {
+        const weeks = Math.ceil(Number(event.rrule.COUNT) / Math.max(1, days.length));
+        endDate = addDays(event.start, weeks * 7 - 1);
+      } else {
+        endDate = addDays(event.start, DEFAULT_SEMESTER_WEEKS * 7 - 1);
+        errors.push(`"${event.summary}": repeats forever, end date set to ${DEFAULT_SEMESTER_WEEKS} weeks`);
+      }
+    }
+
+    days.forEach(day => {
+      const slot = createSlot(day, event.startTime, kind);
+      slot.durationMinutes = duration > 0 ? duration : DEFAULT_SLOT_DURATION;
+      slot.weight = SLOT_WEIGHTS[kind];
+      const group = addToGroup(groups, event.summary, slot, event.start, endDate);
+      group.timeZone = group.timeZone ?? event.timeZone;
+
+      const groupSlot = group.slots.find(s => s.day === day && s.startTime === slot.startTime)!;
+      event.exdates
+        .filter(date => getWeekday(date) === day)
+        .forEach(date => group.cancelled.push({ date, slotId: groupSlot.id }));
+    });
+  });
+
+  return toResult(groups, errors);
+};
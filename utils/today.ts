@@ -0,0 +1,83 @@
+import { AppSettings, AttendanceStatus, HolidaySet, RecordStatus, SlotKind, Subject } from '../types';
+import { getClassesOnDate } from './dayLog';
+import { projectAttendance } from './projection';
+import { getSubjectToday, getTodayIn } from './dates';
+
+/**
+ * Today at a glance: the classes each subject holds on its own "today" and
+ * where the subject stands. Feeds the compact view (?view=today) and the
+ * service worker's today.json for home-screen widgets, so it only holds
+ * plain JSON.
+ */
+
+export interface TodayClass {
+  subjectId: string;
+  subjectName: string;
+  date: string;          // The subject's today, which can differ from the device's
+  slotId: string;
+  startTime?: string;
+  kind: SlotKind;
+  extra: boolean;        // An extra or rescheduled session
+  status?: RecordStatus; // Set once logged
+}
+
+export interface TodaySubject {
+  id: string;
+  name: string;
+  percentage: number; // 0-100
+  status: AttendanceStatus;
+  bunksAvailable: number;
+}
+
+export interface TodaySummary {
+  date: string; // Device's calendar day
+  generatedAt: number;
+  classes: TodayClass[];    // In start-time order, untimed last
+  subjects: TodaySubject[]; // Only subjects meeting today
+  logged: number;
+}
+
+export const buildTodaySummary = (
+  subjects: Subject[],
+  settings: AppSettings,
+  holidaySets: HolidaySet[],
+  now: number = Date.now()
+): TodaySummary => {
+  const classes = subjects
+    .flatMap(subject => {
+      const date = getSubjectToday(subject, now);
+      return getClassesOnDate([subject], holidaySets, date).map(({ slot, record, session }) => ({
+        subjectId: subject.id,
+        subjectName: subject.name,
+        date,
+        slotId: slot.id,
+        startTime: slot.startTime,
+        kind: slot.kind,
+        extra: Boolean(session),
+        status: record?.status,
+      }));
+    })
+    .sort((a, b) => (a.startTime ?? '99:99').localeCompare(b.startTime ?? '99:99'));
+
+  const meeting = new Set(classes.map(c => c.subjectId));
+  const summaries = subjects
+    .filter(subject => meeting.has(subject.id))
+    .map(subject => {
+      const result = projectAttendance(subject, settings, holidaySets, getSubjectToday(subject, now));
+      return {
+        id: subject.id,
+        name: subject.name,
+        percentage: result.percentage,
+        status: result.status,
+        bunksAvailable: result.bunksAvailable,
+      };
+    });
+
+  return {
+    date: getTodayIn(undefined, now),
+    generatedAt: now,
+    classes,
+    subjects: summaries,
+    logged: classes.filter(c => c.status).length,
+  };
+};
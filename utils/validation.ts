@@ -0,0 +1,64 @@
+import { RuleProfile } from '../types';
+import { SLOT_WEIGHTS, STATUS_RULES } from '../constants';
+import { ISO_DATE, TIME_OF_DAY } from './dates';
+
+// Shape checks for data read back from storage, sync bundles and shared
+// files, before it's trusted as a Subject or HolidaySet.
+
+export const isObject = (value: unknown): value is Record<string, any> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+export const isWeekday = (day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6;
+export const isSlotKind = (kind: unknown) => typeof kind === 'string' && kind in SLOT_WEIGHTS;
+export const isFiniteNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+export const isValidRecord = (r: unknown) =>
+  isObject(r) && ISO_DATE.test(r.date) && typeof r.status === 'string' && r.status in STATUS_RULES;
+
+// A weekly slot without its id, as shared in timetable templates
+export const isValidSlotShape = (s: unknown) =>
+  isObject(s) && isWeekday(s.day) && isFiniteNumber(s.weight) && isFiniteNumber(s.durationMinutes) && isSlotKind(s.kind) &&
+  (s.startTime === undefined || (typeof s.startTime === 'string' && TIME_OF_DAY.test(s.startTime)));
+
+export const isValidSlot = (s: unknown) => isValidSlotShape(s) && isObject(s) && typeof s.id === 'string';
+
+export const isValidSession = (s: unknown) =>
+  isObject(s) && typeof s.id === 'string' && ISO_DATE.test(s.date) && isFiniteNumber(s.weight) && isFiniteNumber(s.durationMinutes) && isSlotKind(s.kind);
+
+export const isValidHolidaySet = (set: unknown) =>
+  isObject(set) &&
+  typeof set.id === 'string' &&
+  typeof set.name === 'string' &&
+  Array.isArray(set.ranges) &&
+  set.ranges.every((range: unknown) => isObject(range) && ISO_DATE.test(range.start) && ISO_DATE.test(range.end));
+
+const isValidRemovedRecord = (removed: unknown) =>
+  isObject(removed) && typeof removed.key === 'string' && isFiniteNumber(removed.removedAt);
+
+export const isValidSubject = (s: unknown) =>
+  isObject(s) &&
+  typeof s.name === 'string' &&
+  Array.isArray(s.schedule) &&
+  ISO_DATE.test(s.startDate) &&
+  ISO_DATE.test(s.endDate) &&
+  Array.isArray(s.history) && s.history.every(isValidRecord) &&
+  (s.slots === undefined || (Array.isArray(s.slots) && s.slots.every(isValidSlot))) &&
+  (s.sessions === undefined || (Array.isArray(s.sessions) && s.sessions.every(isValidSession))) &&
+  (s.removedRecords === undefined || (Array.isArray(s.removedRecords) && s.removedRecords.every(isValidRemovedRecord)));
+
+export const isValidSemester = (semester: unknown) =>
+  isObject(semester) &&
+  typeof semester.id === 'string' &&
+  typeof semester.name === 'string' &&
+  ISO_DATE.test(semester.startDate) &&
+  ISO_DATE.test(semester.endDate);
+
+export const isValidRuleProfile = (profile: unknown): profile is RuleProfile =>
+  isObject(profile) &&
+  typeof profile.id === 'string' &&
+  typeof profile.name === 'string' &&
+  isFiniteNumber(profile.theoryTarget) &&
+  isFiniteNumber(profile.labTarget) &&
+  isFiniteNumber(profile.dangerMargin) &&
+  isFiniteNumber(profile.dangerBunks) &&
+  (profile.monthlyMinimum === undefined || isFiniteNumber(profile.monthlyMinimum));
@@ -0,0 +1,71 @@
+import { AppSettings, AttendanceRecord, CalculationResult, HolidaySet, Subject } from '../types';
+import { projectAttendance, getUnloggedSlotsOn } from './projection';
+import { getSubjectTarget } from './rules';
+import { addDays, datesBetween, getTodayIn } from './dates';
+
+export interface WhatIfResult {
+  subject: Subject;
+  skippedUnits: number;
+  before: CalculationResult;
+  after: CalculationResult; // Projection the day after the last skipped date
+  crossesTarget: boolean;   // At or above target now, below it after the plan
+}
+
+/**
+ * Simulates skipping the given dates: those classes are logged as absent,
+ * every other class up to the last skipped date as present, and the subject
+ * is projected again from the day after. Only subjects that actually meet on
+ * one of the dates are returned.
+ */
+export const simulateSkips = (
+  subjects: Subject[],
+  settings: AppSettings,
+  holidaySets: HolidaySet[],
+  skipDates: string[],
+  today: string = getTodayIn()
+): WhatIfResult[] => {
+  const future = Array.from(new Set(skipDates)).filter(date => date >= today).sort();
+  if (future.length === 0) return [];
+
+  const lastSkip = future[future.length - 1];
+  const skipSet = new Set(future);
+
+  return subjects.flatMap(subject => {
+    const synthetic: AttendanceRecord[] = [];
+    let skippedUnits = 0;
+
+    // One record per class not logged yet, so a partly logged day keeps its other classes
+    datesBetween(today, lastSkip).forEach(date => {
+      const skipped = skipSet.has(date);
+      getUnloggedSlotsOn(date, subject, holidaySets).forEach(slot => {
+        if (skipped) skippedUnits += slot.weight;
+        synthetic.push({
+          id: `what-if-${date}-${slot.id}`,
+          date,
+          status: skipped ? 'ABSENT' : 'PRESENT',
+          timestamp: 0,
+          slotId: slot.id,
+        });
+      });
+    });
+
+    if (skippedUnits === 0) return [];
+
+    const before = projectAttendance(subject, settings, holidaySets, today);
+    const after = projectAttendance(
+      { ...subject, history: [...subject.history, ...synthetic] },
+      settings,
+      holidaySets,
+      addDays(lastSkip, 1)
+    );
+    const target = getSubjectTarget(subject, settings) * 100;
+
+    return [{
+      subject,
+      skippedUnits,
+      before,
+      after,
+      crossesTarget: before.percentage >= target && after.percentage < target,
+    }];
+  });
+};
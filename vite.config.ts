@@ -1,9 +1,23 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists every emitted file (hashed bundles, CSS, fonts, index.html) so
+// public/sw.js can precache them on install, before it controls the page
+const precacheManifest = (): Plugin => ({
+  name: 'smartskip-precache-manifest',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.json',
+      source: JSON.stringify(Object.keys(bundle).sort()),
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
   base: './', 
   build: {
     outDir: 'dist',